@@ -1,14 +1,50 @@
+import { DocumentNode } from 'graphql'; // eslint-disable-line import/no-extraneous-dependencies, import/no-unresolved
+
 import { JsonObject, JsonValue } from './primitive';
 import { Queryable } from './Queryable';
+import { CacheHistory } from './CacheHistory';
 import { CacheTransaction } from './CacheTransaction';
 import { CacheSnapshot } from './CacheSnapshot';
-import { CacheContext } from './context';
+import { CacheContext, CacheMetrics } from './context';
 import { GraphSnapshot } from './GraphSnapshot';
-import { QueryObserver, read } from './operations';
+import { Observable } from './Observable';
+import {
+  changedNodeIds,
+  diffSnapshots,
+  extract,
+  missingQuery,
+  MissingValue,
+  QueryObserver,
+  QueryResult,
+  read,
+  restore,
+  SnapshotDiff,
+  toDot,
+} from './operations';
 import { OptimisticUpdateQueue } from './OptimisticUpdateQueue';
-import { ChangeId, NodeId, Query } from './schema';
+import { ChangeId, NodeId, Query, SerializedGraph, StaticNodeId } from './schema';
+import { addToSet } from './util';
 
 export type TransactionCallback = (transaction: CacheTransaction) => void;
+export type ChangeListener = (editedNodeIds: Set<NodeId>) => void;
+
+/**
+ * Options for a transaction.
+ */
+export interface TransactionOptions {
+  /** If provided, the transaction is recorded as an optimistic update. */
+  changeId?: ChangeId;
+  /** Describes the transaction in the cache's history (see `historySize`). */
+  label?: string;
+}
+
+/**
+ * Options for a transaction that reports what it changed.
+ */
+export interface DiffingTransactionOptions extends TransactionOptions {
+  /** Return the differences introduced by the transaction. */
+  diff: true;
+}
 
 /**
  * The Hermes cache.
@@ -27,10 +63,35 @@ export class Cache implements Queryable {
   /** All active query observers. */
   private _observers: QueryObserver[] = [];
 
-  constructor(config?: CacheContext.Configuration) {
-    const initialGraphSnapshot = new GraphSnapshot();
-    this._snapshot = new CacheSnapshot(initialGraphSnapshot, initialGraphSnapshot, new OptimisticUpdateQueue());
+  /** Nodes retained during garbage collection (and their retain counts). */
+  private _retainedNodeIds = new Map<NodeId, number>();
+
+  /** The number of transactions committed since we last garbage collected. */
+  private _commitsSinceGc = 0;
+
+  /** Previous versions of the cache, if history is enabled. */
+  private _history: CacheHistory | undefined;
+
+  /** Listeners to notify whenever the cache's contents change. */
+  private _changeListeners: ChangeListener[] = [];
+
+  /**
+   * Nodes edited since observers were last notified, if a notification is
+   * pending.
+   */
+  private _pendingNodeIds: Set<NodeId> | undefined;
+
+  /**
+   * If `initialState` is provided (previously extracted data), the cache will
+   * begin with its contents, rather than empty.
+   */
+  constructor(config?: CacheContext.Configuration, initialState?: SerializedGraph) {
     this._context = new CacheContext(config);
+    const initialGraphSnapshot = initialState ? restore(this._context, initialState) : new GraphSnapshot();
+    this._snapshot = new CacheSnapshot(initialGraphSnapshot, initialGraphSnapshot, new OptimisticUpdateQueue());
+    if (this._context.historySize) {
+      this._history = new CacheHistory(this._context.historySize);
+    }
   }
 
   /**
@@ -39,11 +100,22 @@ export class Cache implements Queryable {
    * TODO: Can we drop non-optimistic reads?
    * https://github.com/apollographql/apollo-client/issues/1971#issuecomment-319402170
    */
-  read(query: Query, optimistic?: boolean): { result?: JsonValue, complete: boolean } {
+  read(query: Query, optimistic?: boolean, includeMissing?: boolean): { result?: JsonValue, complete: boolean, missing?: MissingValue[] } {
     // TODO: Can we drop non-optimistic reads?
     // https://github.com/apollographql/apollo-client/issues/1971#issuecomment-319402170
     const snapshot = optimistic ? this._snapshot.optimistic : this._snapshot.baseline;
-    return read(this._context, query, snapshot);
+    return read(this._context, query, snapshot, undefined, includeMissing || undefined);
+  }
+
+  /**
+   * Builds a GraphQL document selecting only the parts of a query that are
+   * missing from the cache, or undefined if the cache satisfies it.
+   *
+   * See `entityFetchStrategy` for rooting those selections at entities.
+   */
+  missingQuery(query: Query, optimistic?: boolean): DocumentNode | undefined {
+    const snapshot = optimistic ? this._snapshot.optimistic : this._snapshot.baseline;
+    return missingQuery(this._context, query, snapshot);
   }
 
   /**
@@ -57,11 +129,94 @@ export class Cache implements Queryable {
    * Registers a callback that should be triggered any time the nodes selected
    * by a particular query have changed.
    */
-  watch(query: Query, callback: () => void): () => void {
+  watch(query: Query, callback: (result: QueryResult) => void): () => void {
     const observer = new QueryObserver(this._context, query, this._snapshot.optimistic, callback);
     this._observers.push(observer);
+    // Observed queries may be rooted outside of the graph's static roots.
+    const release = this.retain(query.rootId);
+
+    return () => {
+      this._removeObserver(observer);
+      release();
+    };
+  }
+
+  /**
+   * Returns an observable of the results of a query.
+   *
+   * Subscribers receive the current result immediately, and then again any
+   * time the nodes selected by the query have changed.
+   */
+  watchQuery(query: Query): Observable<QueryResult> {
+    return new Observable<QueryResult>((observer) => {
+      return this.watch(query, ({ result, complete }) => observer.next({ result, complete }));
+    });
+  }
+
+  /**
+   * Registers a listener that is called any time the contents of the cache
+   * change (committed transactions, restores, resets, etc).
+   *
+   * Returns a function that unregisters the listener.
+   */
+  onChange(listener: ChangeListener): () => void {
+    this._changeListeners.push(listener);
 
-    return () => this._removeObserver(observer);
+    return () => {
+      const index = this._changeListeners.indexOf(listener);
+      if (index < 0) return;
+      this._changeListeners.splice(index, 1);
+    };
+  }
+
+  /**
+   * Returns runtime metrics accumulated over the lifetime of the cache, if
+   * enabled (via `collectMetrics` or `onCommitMetrics`).
+   */
+  getMetrics(): CacheMetrics | undefined {
+    const { metrics } = this._context;
+    if (!metrics) return undefined;
+    return metrics.getMetrics(this._snapshot.optimistic.allNodeIds().length);
+  }
+
+  /**
+   * Returns the logger that the cache emits messages via (see `logger`).
+   */
+  getLogger(): CacheContext.Logger {
+    return this._context.logger;
+  }
+
+  /**
+   * Exposes the current version of the cache, and its active observers, for
+   * debugging tools.
+   *
+   * @internal
+   */
+  inspect(): { snapshot: CacheSnapshot, observers: QueryObserver[] } {
+    return { snapshot: this._snapshot, observers: [...this._observers] };
+  }
+
+  /**
+   * Prevents the node identified by `id` (and anything reachable from it) from
+   * being garbage collected.
+   *
+   * Returns a function that releases the node.
+   */
+  retain(id: NodeId): () => void {
+    this._retainedNodeIds.set(id, (this._retainedNodeIds.get(id) || 0) + 1);
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+
+      const count = this._retainedNodeIds.get(id)! - 1;
+      if (count) {
+        this._retainedNodeIds.set(id, count);
+      } else {
+        this._retainedNodeIds.delete(id);
+      }
+    };
   }
 
   /**
@@ -78,33 +233,96 @@ export class Cache implements Queryable {
    * If a changeId is provided, the transaction will be recorded as an
    * optimistic update.
    *
-   * Returns whether the transaction was successful.
+   * Returns whether the transaction was successful.  Or, if `diff` is
+   * requested, the differences it introduced (to the baseline, or the
+   * optimistic state for optimistic updates); undefined on failure.
    */
   transaction(callback: TransactionCallback): boolean;
   transaction(changeIdOrCallback: ChangeId, callback: TransactionCallback): boolean;
-  transaction(changeIdOrCallback: ChangeId | TransactionCallback, callback?: TransactionCallback): boolean {
-    let changeId;
+  transaction(options: DiffingTransactionOptions, callback: TransactionCallback): SnapshotDiff | undefined;
+  transaction(options: TransactionOptions, callback: TransactionCallback): boolean;
+  transaction(
+    changeIdOrCallback: ChangeId | TransactionOptions | DiffingTransactionOptions | TransactionCallback,
+    callback?: TransactionCallback,
+  ): boolean | SnapshotDiff | undefined {
+    let changeId, label, includeDiff = false;
     if (typeof callback !== 'function') {
       callback = changeIdOrCallback as TransactionCallback;
+    } else if (typeof changeIdOrCallback === 'object') {
+      changeId = changeIdOrCallback.changeId;
+      label = changeIdOrCallback.label;
+      includeDiff = !!(changeIdOrCallback as DiffingTransactionOptions).diff;
     } else {
       changeId = changeIdOrCallback as ChangeId;
     }
 
-    const transaction = new CacheTransaction(this._context, this._snapshot, changeId);
-    try {
-      callback(transaction);
-    } catch (error) {
-      this._context.error(`Rolling back transaction due to error:`, error);
-      return false;
+    const previous = this._snapshot;
+    const editedNodeIds = this._performTransaction(callback, changeId);
+    if (!editedNodeIds) {
+      return includeDiff ? undefined : false;
+    }
+    // Only changes to the baseline are recorded: optimistic updates (and their
+    // rollbacks) are replayed on top of whichever version is current.
+    // Transactions that changed nothing would be no-ops to undo.
+    if (this._history && !changeId && editedNodeIds.size && this._snapshot.baseline !== previous.baseline) {
+      this._history.record(previous.baseline, label);
     }
 
-    const { snapshot, editedNodeIds, writtenQueries } = transaction.commit();
-    this._setSnapshot(snapshot, editedNodeIds);
-    this._context.markQueriesWritten(writtenQueries);
+    let diff;
+    if (includeDiff) {
+      diff = changeId
+        ? diffSnapshots(previous.optimistic, this._snapshot.optimistic)
+        : diffSnapshots(previous.baseline, this._snapshot.baseline);
+    }
 
+    // Periodically clean up any unreachable nodes, if requested.
+    const { gcInterval } = this._context;
+    if (gcInterval && ++this._commitsSinceGc >= gcInterval) {
+      this.gc();
+    }
+
+    return includeDiff ? diff : true;
+  }
+
+  /**
+   * Returns the cache to the version prior to the most recent transaction (if
+   * history is enabled, and there is one).  Optimistic updates aren't recorded;
+   * any that are pending are reapplied to the restored version.
+   *
+   * Returns whether there was anything to undo.
+   */
+  undo(): boolean {
+    if (!this._history) return false;
+    const baseline = this._history.undo(this._snapshot.baseline);
+    if (!baseline) return false;
+
+    this._jumpToBaseline(baseline);
     return true;
   }
 
+  /**
+   * Reapplies the most recently undone transaction (if any).
+   *
+   * Returns whether there was anything to redo.
+   */
+  redo(): boolean {
+    if (!this._history) return false;
+    const baseline = this._history.redo(this._snapshot.baseline);
+    if (!baseline) return false;
+
+    this._jumpToBaseline(baseline);
+    return true;
+  }
+
+  /**
+   * Describes the transactions that can currently be undone (oldest first) and
+   * redone (next first).
+   */
+  history(): { undo: CacheHistory.Entry[], redo: CacheHistory.Entry[] } {
+    if (!this._history) return { undo: [], redo: [] };
+    return this._history.entries();
+  }
+
   /**
    * Roll back a previously enqueued optimistic update.
    */
@@ -112,6 +330,85 @@ export class Cache implements Queryable {
     this.transaction(t => t.rollback(changeId));
   }
 
+  /**
+   * Removes the node identified by `id` from the cache, along with any nodes
+   * orphaned by its removal.
+   *
+   * All references to the evicted node are replaced with null.
+   */
+  evict(id: NodeId): void {
+    this.transaction(t => t.evict(id));
+  }
+
+  /**
+   * Removes all nodes that are not reachable from the static roots of the
+   * graph, retained nodes, or the roots of observed queries.
+   *
+   * Unlike the orphan collection that occurs during writes, this will also
+   * reclaim unreachable cycles of nodes.
+   *
+   * Returns the ids of all removed nodes.
+   */
+  gc(): NodeId[] {
+    this._commitsSinceGc = 0;
+
+    const rootIds = [
+      StaticNodeId.QueryRoot,
+      StaticNodeId.MutationRoot,
+      StaticNodeId.SubscriptionRoot,
+      ...this._retainedNodeIds.keys(),
+    ];
+
+    const transaction = new CacheTransaction(this._context, this._snapshot);
+    const removedNodeIds = transaction.collectGarbage(rootIds);
+    // Nothing to commit (or notify observers of).
+    if (!removedNodeIds.length) return [];
+
+    this._commitTransaction(transaction);
+    return removedNodeIds;
+  }
+
+  /**
+   * Serializes the contents of the cache into a JSON-safe structure, suitable
+   * for persistence or transfer (e.g. server side rendering).
+   *
+   * Optimistic updates are not included, unless `optimistic` is specified; in
+   * which case their values are included in the serialized nodes.
+   */
+  extract(optimistic?: boolean): SerializedGraph {
+    return extract(optimistic ? this._snapshot.optimistic : this._snapshot.baseline);
+  }
+
+  /**
+   * Renders the (optimistic) contents of the cache as a Graphviz DOT graph, for
+   * debugging.
+   *
+   * The graph can be limited to the nodes reachable from `rootIds`, or those
+   * selected by `query`.
+   */
+  toDot(options: { graphName?: string, rootIds?: NodeId[], query?: Query } = {}): string {
+    return toDot(this._snapshot.optimistic, { ...options, context: this._context });
+  }
+
+  /**
+   * Replaces the contents of the cache with previously extracted data.
+   *
+   * Any pending optimistic updates are discarded.
+   */
+  restore(data: SerializedGraph): void {
+    const baseline = restore(this._context, data);
+
+    const editedNodeIds = new Set(this._snapshot.optimistic.allNodeIds());
+    addToSet(editedNodeIds, baseline.allNodeIds());
+
+    this._setSnapshot(new CacheSnapshot(baseline, baseline, new OptimisticUpdateQueue()), editedNodeIds);
+    // We can no longer vouch for previously written queries.
+    this._context.clearWrittenQueries();
+    if (this._history) {
+      this._history.clear();
+    }
+  }
+
   /**
    * Resets all data tracked by the cache.
    */
@@ -123,10 +420,62 @@ export class Cache implements Queryable {
     const optimisticQueue = new OptimisticUpdateQueue();
 
     this._setSnapshot({ baseline, optimistic, optimisticQueue }, allIds);
+    if (this._history) {
+      this._history.clear();
+    }
   }
 
   // Internal
 
+  /**
+   * Executes and commits a transaction.
+   *
+   * Returns the ids of the nodes it edited, or undefined if it failed.
+   */
+  private _performTransaction(callback: TransactionCallback, changeId?: ChangeId): Set<NodeId> | undefined {
+    const transaction = new CacheTransaction(this._context, this._snapshot, changeId);
+    try {
+      callback(transaction);
+    } catch (error) {
+      this._context.error(`Rolling back transaction due to error:`, error);
+      return undefined;
+    }
+
+    return this._commitTransaction(transaction);
+  }
+
+  /**
+   * Commits a transaction, returning the ids of the nodes it edited.
+   */
+  private _commitTransaction(transaction: CacheTransaction): Set<NodeId> {
+    const { snapshot, editedNodeIds, writtenQueries, evictedNodeIds } = transaction.commit();
+    this._setSnapshot(snapshot, editedNodeIds);
+    this._context.markQueriesWritten(writtenQueries);
+    // Previously written queries may no longer be satisfied.
+    if (evictedNodeIds.size) {
+      this._context.clearWrittenQueries();
+    }
+
+    return editedNodeIds;
+  }
+
+  /**
+   * Point the cache to a previously recorded version of its baseline, with any
+   * pending optimistic updates replayed on top of it.
+   */
+  private _jumpToBaseline(baseline: GraphSnapshot): void {
+    const { optimisticQueue } = this._snapshot;
+    const optimistic = optimisticQueue.hasUpdates() ? optimisticQueue.apply(this._context, baseline).snapshot : baseline;
+    const snapshot = new CacheSnapshot(baseline, optimistic, optimisticQueue);
+
+    const editedNodeIds = changedNodeIds(this._snapshot.optimistic, snapshot.optimistic);
+    addToSet(editedNodeIds, changedNodeIds(this._snapshot.baseline, snapshot.baseline));
+
+    this._setSnapshot(snapshot, editedNodeIds);
+    // Queries written since that version may no longer be satisfied.
+    this._context.clearWrittenQueries();
+  }
+
   /**
    * Unregister an observer.
    */
@@ -142,8 +491,39 @@ export class Cache implements Queryable {
   private _setSnapshot(snapshot: CacheSnapshot, editedNodeIds: Set<NodeId>): void {
     this._snapshot = snapshot;
 
-    for (const observer of this._observers) {
-      observer.consumeChanges(snapshot.optimistic, editedNodeIds);
+    if (this._pendingNodeIds) {
+      addToSet(this._pendingNodeIds, editedNodeIds);
+    } else {
+      this._pendingNodeIds = new Set(editedNodeIds);
+      this._context.scheduleNotifications(() => this._flushNotifications());
+    }
+
+    for (const listener of [...this._changeListeners]) {
+      listener(editedNodeIds);
+    }
+
+    if (this._context.metrics) {
+      this._context.metrics.recordCommit(snapshot.optimistic.allNodeIds().length);
+    }
+  }
+
+  /**
+   * Let observers know of all changes made since they were last notified.
+   */
+  private _flushNotifications(): void {
+    const editedNodeIds = this._pendingNodeIds;
+    if (!editedNodeIds) return;
+    this._pendingNodeIds = undefined;
+
+    // Observers may be added or removed as a result of notifications.
+    for (const observer of [...this._observers]) {
+      if (this._observers.indexOf(observer) < 0) continue;
+      // A failing observer shouldn't prevent the rest from being notified.
+      try {
+        observer.consumeChanges(this._snapshot.optimistic, editedNodeIds);
+      } catch (error) {
+        this._context.error(`Error while notifying query observer:`, error);
+      }
     }
   }
 
@@ -0,0 +1,96 @@
+import { GraphSnapshot } from './GraphSnapshot';
+
+export namespace CacheHistory {
+
+  /**
+   * Describes a change that can be undone or redone.
+   */
+  export interface Entry {
+    /** The label given to the transaction that made the change, if any. */
+    label?: string;
+  }
+
+}
+
+/**
+ * A recorded version of the cache's baseline, along with the change that moved
+ * away from it.
+ */
+interface HistoryRecord {
+  label?: string;
+  baseline: GraphSnapshot;
+}
+
+/**
+ * Tracks a bounded undo/redo stack of baseline snapshots.
+ *
+ * Only baselines are recorded; optimistic updates are layered on top of
+ * whichever version is current (see `Cache.undo()`).  Snapshots are immutable
+ * (and share unchanged nodes), so retaining previous versions is relatively
+ * cheap.
+ */
+export class CacheHistory {
+
+  /** Versions that can be returned to via undo, oldest first. */
+  private _past: HistoryRecord[] = [];
+  /** Versions that can be returned to via redo, most recently undone last. */
+  private _future: HistoryRecord[] = [];
+
+  constructor(
+    /** The maximum number of versions to retain for undo. */
+    private _size: number,
+  ) {}
+
+  /**
+   * Records a change away from `baseline`; any redoable changes are dropped.
+   */
+  record(baseline: GraphSnapshot, label?: string): void {
+    this._past.push({ label, baseline });
+    if (this._past.length > this._size) {
+      this._past.splice(0, this._past.length - this._size);
+    }
+    this._future = [];
+  }
+
+  /**
+   * Moves back a version, returning the baseline to restore (if any).
+   */
+  undo(current: GraphSnapshot): GraphSnapshot | undefined {
+    const record = this._past.pop();
+    if (!record) return undefined;
+
+    this._future.push({ label: record.label, baseline: current });
+    return record.baseline;
+  }
+
+  /**
+   * Moves forward a version, returning the baseline to restore (if any).
+   */
+  redo(current: GraphSnapshot): GraphSnapshot | undefined {
+    const record = this._future.pop();
+    if (!record) return undefined;
+
+    this._past.push({ label: record.label, baseline: current });
+    return record.baseline;
+  }
+
+  /**
+   * The changes that can currently be undone (oldest first) and redone (next
+   * first).
+   */
+  entries(): { undo: CacheHistory.Entry[], redo: CacheHistory.Entry[] } {
+    return {
+      undo: this._past.map(({ label }) => ({ label })),
+      redo: this._future.map(({ label }) => ({ label })).reverse(),
+    };
+  }
+
+  /**
+   * Forgets all recorded versions.
+   */
+  clear(): void {
+    this._past = [];
+    this._future = [];
+  }
+
+}
@@ -1,12 +1,40 @@
 import { CacheSnapshot } from './CacheSnapshot';
 import { CacheContext } from './context';
 import { GraphSnapshot } from './GraphSnapshot';
-import { read, write } from './operations';
+import {
+  changedNodeIds,
+  collectGarbage,
+  editConnection,
+  evict,
+  insertEdgeEditor,
+  MissingValue,
+  read,
+  removeEdgeEditor,
+  write,
+} from './operations';
 import { JsonObject, JsonValue } from './primitive';
 import { Queryable } from './Queryable';
 import { ChangeId, NodeId, ParsedQuery, Query, QuerySnapshot } from './schema';
 import { addToSet } from './util';
 
+export namespace CacheTransaction {
+
+  /**
+   * The state of a transaction at a point in time, which can later be rolled
+   * back to (see `savepoint()` and `rollbackTo()`).
+   */
+  export interface Savepoint {
+    /** The transaction the savepoint was taken from. */
+    readonly transaction: CacheTransaction;
+    readonly snapshot: CacheSnapshot;
+    readonly editedNodeIds: Set<NodeId>;
+    readonly deltas: QuerySnapshot[];
+    readonly writtenQueries: Set<ParsedQuery>;
+    readonly evictedNodeIds: Set<NodeId>;
+  }
+
+}
+
 /**
  * Collects a set of edits against a version of the cache, eventually committing
  * them in the form of a new cache snapshot.
@@ -25,6 +53,9 @@ export class CacheTransaction implements Queryable {
   /** All queries written during the transaction. */
   private _writtenQueries = new Set<ParsedQuery>();
 
+  /** The nodes explicitly evicted during the transaction. */
+  private _evictedNodeIds = new Set<NodeId>();
+
   constructor(
     private _context: CacheContext,
     private _snapshot: CacheSnapshot,
@@ -34,8 +65,8 @@ export class CacheTransaction implements Queryable {
   /**
    * Executes reads against the current values in the transaction.
    */
-  read(query: Query): { result?: JsonValue, complete: boolean } {
-    return read(this._context, query, this._snapshot.optimistic);
+  read(query: Query, _optimistic?: boolean, includeMissing?: boolean): { result?: JsonValue, complete: boolean, missing?: MissingValue[] } {
+    return read(this._context, query, this._snapshot.optimistic, undefined, includeMissing || undefined);
   }
 
   /**
@@ -53,6 +84,71 @@ export class CacheTransaction implements Queryable {
     }
   }
 
+  /**
+   * Inserts an edge at the start or end of a (Relay-style) connection,
+   * replacing any edge to the same node.
+   *
+   * Returns whether the connection exists (and was edited).
+   */
+  insertEdge(connection: editConnection.Locator, edge: JsonObject, position: 'start' | 'end' = 'end'): boolean {
+    return this._editConnection(connection, insertEdgeEditor(this._context, edge, position));
+  }
+
+  /**
+   * Removes all edges to the node `nodeId` from a (Relay-style) connection.
+   *
+   * Returns whether the connection exists (and was edited).
+   */
+  removeEdge(connection: editConnection.Locator, nodeId: NodeId): boolean {
+    return this._editConnection(connection, removeEdgeEditor(this._context, nodeId));
+  }
+
+  /**
+   * Removes the node identified by `nodeId` (and any nodes orphaned by its
+   * removal) from the baseline state.
+   *
+   * References to the evicted node are replaced with null.
+   */
+  evict(nodeId: NodeId): void {
+    if (this._optimisticChangeId) {
+      throw new Error(`evict() is not supported within optimistic transactions`);
+    }
+
+    const current = this._snapshot;
+    if (!current.baseline.has(nodeId)) return;
+
+    const { snapshot: baseline, editedNodeIds } = evict(this._context, current.baseline, nodeId);
+    addToSet(this._editedNodeIds, editedNodeIds);
+    this._evictedNodeIds.add(nodeId);
+
+    const optimistic = this._buildOptimisticSnapshot(baseline);
+
+    this._snapshot = { ...current, baseline, optimistic };
+  }
+
+  /**
+   * Removes all nodes from the baseline state that are not transitively
+   * reachable from `rootIds`; returning the ids of the removed nodes.
+   */
+  collectGarbage(rootIds: Iterable<NodeId>): NodeId[] {
+    if (this._optimisticChangeId) {
+      throw new Error(`collectGarbage() is not supported within optimistic transactions`);
+    }
+
+    const current = this._snapshot;
+
+    const { snapshot: baseline, editedNodeIds, removedNodeIds } = collectGarbage(this._context, current.baseline, rootIds);
+    if (!removedNodeIds.size) return [];
+    addToSet(this._editedNodeIds, editedNodeIds);
+    addToSet(this._evictedNodeIds, removedNodeIds);
+
+    const optimistic = this._buildOptimisticSnapshot(baseline);
+
+    this._snapshot = { ...current, baseline, optimistic };
+
+    return Array.from(removedNodeIds);
+  }
+
   /**
    * Roll back a previously enqueued optimistic update.
    */
@@ -60,16 +156,78 @@ export class CacheTransaction implements Queryable {
     const current = this._snapshot;
 
     const optimisticQueue = current.optimisticQueue.remove(changeId);
+    // Note that we must build the optimistic snapshot from the new queue.
+    this._snapshot = { ...current, optimisticQueue };
     const optimistic = this._buildOptimisticSnapshot(current.baseline);
 
+    // Any node that differed from the baseline due to the removed update has
+    // now changed, too.
+    addToSet(this._editedNodeIds, changedNodeIds(current.optimistic, optimistic));
+
     this._snapshot = { ...current, optimistic, optimisticQueue };
   }
 
+  /**
+   * Captures the current state of the transaction, so that any subsequent
+   * edits can be discarded via `rollbackTo()`.
+   */
+  savepoint(): CacheTransaction.Savepoint {
+    return {
+      transaction: this,
+      snapshot: this._snapshot,
+      editedNodeIds: new Set(this._editedNodeIds),
+      deltas: [...this._deltas],
+      writtenQueries: new Set(this._writtenQueries),
+      evictedNodeIds: new Set(this._evictedNodeIds),
+    };
+  }
+
+  /**
+   * Discards all edits made since `savepoint` was taken.
+   */
+  rollbackTo(savepoint: CacheTransaction.Savepoint): void {
+    if (savepoint.transaction !== this) {
+      throw new Error(`Cannot roll back to a savepoint from a different transaction`);
+    }
+
+    this._snapshot = savepoint.snapshot;
+    this._editedNodeIds = new Set(savepoint.editedNodeIds);
+    this._deltas = [...savepoint.deltas];
+    this._writtenQueries = new Set(savepoint.writtenQueries);
+    this._evictedNodeIds = new Set(savepoint.evictedNodeIds);
+  }
+
+  /**
+   * Performs a nested transaction on top of the current values in this one.
+   *
+   * If the callback throws, only the nested transaction's edits are discarded
+   * (and the error is logged); this transaction remains usable.
+   *
+   * Returns whether the nested transaction was successful.
+   */
+  transaction(callback: (transaction: CacheTransaction) => void): boolean {
+    const child = new CacheTransaction(this._context, this._snapshot, this._optimisticChangeId);
+    try {
+      callback(child);
+    } catch (error) {
+      this._context.error(`Rolling back nested transaction due to error:`, error);
+      return false;
+    }
+
+    this._snapshot = child._snapshot;
+    addToSet(this._editedNodeIds, child._editedNodeIds);
+    this._deltas.push(...child._deltas);
+    addToSet(this._writtenQueries, child._writtenQueries);
+    addToSet(this._evictedNodeIds, child._evictedNodeIds);
+
+    return true;
+  }
+
   /**
    * Complete the transaction, returning the new snapshot and the ids of any
-   * nodes that were edited.
+   * nodes that were edited (or evicted).
    */
-  commit(): { snapshot: CacheSnapshot, editedNodeIds: Set<NodeId>, writtenQueries: Set<ParsedQuery> } {
+  commit(): { snapshot: CacheSnapshot, editedNodeIds: Set<NodeId>, writtenQueries: Set<ParsedQuery>, evictedNodeIds: Set<NodeId> } {
     let snapshot = this._snapshot;
     if (this._optimisticChangeId) {
       snapshot = {
@@ -78,7 +236,25 @@ export class CacheTransaction implements Queryable {
       };
     }
 
-    return { snapshot, editedNodeIds: this._editedNodeIds, writtenQueries: this._writtenQueries };
+    return {
+      snapshot,
+      editedNodeIds: this._editedNodeIds,
+      writtenQueries: this._writtenQueries,
+      evictedNodeIds: this._evictedNodeIds,
+    };
+  }
+
+  /**
+   * Writes the edited edges of a connection, via the state that writes apply
+   * to.
+   */
+  private _editConnection(connection: editConnection.Locator, edit: editConnection.EdgesEditor): boolean {
+    const { baseline, optimistic } = this._snapshot;
+    const edited = editConnection(this._context, this._optimisticChangeId ? optimistic : baseline, connection, edit);
+    if (!edited) return false;
+
+    this.write(edited.query, edited.payload);
+    return true;
   }
 
   /**
@@ -115,7 +291,7 @@ export class CacheTransaction implements Queryable {
   private _writeOptimistic(query: Query, payload: JsonObject) {
     this._deltas.push({ query, payload });
 
-    const { snapshot: optimistic, editedNodeIds, writtenQueries } = write(this._context, this._snapshot.baseline, query, payload);
+    const { snapshot: optimistic, editedNodeIds, writtenQueries } = write(this._context, this._snapshot.optimistic, query, payload);
     addToSet(this._writtenQueries, writtenQueries);
     addToSet(this._editedNodeIds, editedNodeIds);
 
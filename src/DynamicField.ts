@@ -1,11 +1,13 @@
 import { // eslint-disable-line import/no-extraneous-dependencies, import/no-unresolved
   ArgumentNode,
+  SelectionNode,
   SelectionSetNode,
   ValueNode,
 } from 'graphql';
+import lodashIsEqual = require('lodash.isequal');
 
 import { JsonObject, JsonScalar, JsonValue, NestedObject, NestedValue } from './primitive';
-import { FragmentMap, isObject, valueFromNode } from './util';
+import { addToSet, FragmentMap, isLocalSelection, isObject, valueFromNode } from './util';
 
 export type JsonAndArgs = JsonScalar | VariableArgument;
 
@@ -21,6 +23,16 @@ export class DynamicField<TArgTypes = JsonScalar, TChildArgTypes = JsonScalar> {
     public readonly fieldName?: string,
     /** Any children with dynamic fields. */
     public readonly children?: DynamicFieldMap<TChildArgTypes>,
+    /**
+     * If the field is conditionally selected (via `@include` or `@skip`), it
+     * is selected when all conditions of any of these sets hold.
+     */
+    public readonly includeIf?: SelectionCondition<TArgTypes>[][],
+    /**
+     * Whether the field is local-only (`@client`); its value is computed by a
+     * local resolver, or stored without ever being fetched from a server.
+     */
+    public readonly isLocal?: true,
   ) {}
 }
 export interface DynamicFieldWithVariables extends DynamicField<JsonAndArgs, JsonAndArgs> {}
@@ -33,10 +45,49 @@ export interface DynamicFieldWithArgs extends DynamicField {
  * that contain a dynamic field.
  */
 export interface DynamicFieldMap<TArgTypes = JsonScalar> {
-  [Key: string]: DynamicFieldMap<TArgTypes> | DynamicField<TArgTypes, TArgTypes>;
+  [Key: string]: DynamicFieldEntry<TArgTypes> | DynamicFieldVariants<TArgTypes>;
 }
 export interface DynamicFieldMapWithVariables extends DynamicFieldMap<JsonAndArgs> {}
 
+/**
+ * The dynamic features of a single field.
+ */
+export type DynamicFieldEntry<TArgTypes = JsonScalar>
+  = DynamicFieldMap<TArgTypes>
+  | DynamicField<TArgTypes, TArgTypes>;
+export type DynamicFieldEntryWithVariables = DynamicFieldEntry<JsonAndArgs>;
+
+/**
+ * A response key that fragments on different types select differently (e.g.
+ * `... on Photo { url }` and `... on Video { url: streamUrl }`).  Which
+ * selection applies depends on the __typename of the containing value; see
+ * `resolveDynamicField`.
+ */
+export class DynamicFieldVariants<TArgTypes = JsonScalar> {
+  constructor(
+    /** The selection made outside of any type condition, if it's dynamic. */
+    public readonly base: DynamicFieldEntry<TArgTypes> | undefined,
+    /** Selections made by type condition (undefined, if not dynamic). */
+    public readonly conditional: { [TypeCondition: string]: DynamicFieldEntry<TArgTypes> | undefined },
+  ) {}
+}
+export interface DynamicFieldVariantsWithVariables extends DynamicFieldVariants<JsonAndArgs> {}
+
+/**
+ * The condition of an `@include(if: …)` or `@skip(if: …)` directive.
+ */
+export interface SelectionCondition<TArgTypes = JsonScalar> {
+  /** Whether the selection is included (or skipped) when `value` is true. */
+  include: boolean;
+  /** The (static or variable) value of the `if` argument. */
+  value: NestedValue<TArgTypes>;
+}
+
+/**
+ * Whether a fragment's type condition is satisfied by a value.
+ */
+export type TypeConditionMatcher = (typeCondition: string, value: JsonObject) => boolean;
+
 /**
  * Represents the location a variable should be used as an argument to a
  * parameterized field.
@@ -54,7 +105,10 @@ export class VariableArgument {
 /**
  * Walks a selection set, identifying any dynamic fields within.
  *
- * TODO: Support for directives (maybe?).
+ * Fields that are conditionally selected (via `@include` or `@skip`) are
+ * considered dynamic, as whether they are selected depends on variables.
+ * Similarly, local-only fields (`@client`) are dynamic, as their values may be
+ * computed at read time.
  */
 export function compileDynamicFields(fragments: FragmentMap, selectionSet?: SelectionSetNode) {
   const variables = new Set<string>();
@@ -70,19 +124,70 @@ function _buildDynamicFieldMap(
 ): DynamicFieldMapWithVariables | undefined {
   if (!selectionSet) return undefined;
 
-  let fieldMap;
+  const branches: SelectionBranch[] = [];
+  _collectSelectionBranches(variables, fragments, selectionSet, undefined, [], branches);
+
+  const keys = new Set<string>();
+  for (const branch of branches) {
+    addToSet(keys, Object.keys(branch.fields));
+  }
+
+  let fieldMap: DynamicFieldMapWithVariables | undefined;
+  for (const key of keys) {
+    const selected = branches.filter(branch => key in branch.fields);
+    const entry = _combineBranches(selected.map(({ typeCondition, fields }) => ({ typeCondition, entry: fields[key] })));
+    if (entry) {
+      (fieldMap || (fieldMap = {}))[key] = entry;
+    }
+  }
+
+  return fieldMap;
+}
+
+/**
+ * The fields selected directly by a selection set, or by one of its fragments:
+ * their dynamic features by response key (or null, for plain fields).
+ */
+interface SelectionBranch {
+  /** The type condition of the fragment (if any) that made the selections. */
+  typeCondition?: string;
+  fields: { [Key: string]: DynamicFieldEntryWithVariables | null };
+}
+
+/**
+ * Collects the selections made by a selection set and (recursively) its
+ * fragments, grouped by the fragment that made them.
+ *
+ * `conditions` are the `@include`/`@skip` conditions of any fragments that
+ * contain the selection set.
+ */
+function _collectSelectionBranches(
+  variables: Set<string>,
+  fragments: FragmentMap,
+  selectionSet: SelectionSetNode,
+  typeCondition: string | undefined,
+  conditions: SelectionCondition<JsonAndArgs>[],
+  branches: SelectionBranch[],
+): void {
+  const branch: SelectionBranch = { typeCondition, fields: {} };
+  branches.push(branch);
 
   for (const selection of selectionSet.selections) {
+    const selectionConditions = [...conditions, ..._buildSelectionConditions(variables, selection)];
+
+    // Fragments (named or inline) apply to the current value, but only when
+    // it satisfies their type condition.
     if (selection.kind === 'FragmentSpread') {
       const fragment = fragments[selection.name.value];
       if (!fragment) {
         throw new Error(`Expected fragment ${selection.name.value} to exist in GraphQL document`);
       }
       // TODO: Memoize.
-      const fragmentFields = _buildDynamicFieldMap(variables, fragments, fragment.selectionSet);
-      if (fragmentFields) {
-        fieldMap = { ...fieldMap, ...fragmentFields };
-      }
+      const fragmentCondition = fragment.typeCondition.name.value;
+      _collectSelectionBranches(variables, fragments, fragment.selectionSet, fragmentCondition, selectionConditions, branches);
+    } else if (selection.kind === 'InlineFragment') {
+      const inlineCondition = selection.typeCondition ? selection.typeCondition.name.value : typeCondition;
+      _collectSelectionBranches(variables, fragments, selection.selectionSet, inlineCondition, selectionConditions, branches);
     } else if (selection.kind === 'Field') {
       // if the current selection doesn't have any dynamic features but its
       // children do, we will host the DynamicFieldMap of the children directly
@@ -90,30 +195,223 @@ function _buildDynamicFieldMap(
       // saves a bit of overhead, and allows us to more cleanly reason about
       // where dynamic fields are in the selection.
       const currentKey: string = selection.alias ? selection.alias.value : selection.name.value;
-      let currentField: DynamicFieldWithVariables | DynamicFieldMapWithVariables | undefined;
+      let currentField: DynamicFieldEntryWithVariables | undefined;
       let parameterizedArguments: NestedObject<JsonAndArgs> | undefined;
 
       if (selection.kind === 'Field' && selection.arguments && selection.arguments.length) {
         parameterizedArguments = _buildFieldArgs(variables, selection.arguments);
       }
 
+      const isLocal = isLocalSelection(selection);
+
       // Is this a dynamic field?
-      if (parameterizedArguments || selection.alias) {
+      if (parameterizedArguments || selection.alias || selectionConditions.length || isLocal) {
         currentField = new DynamicField(parameterizedArguments,
           selection.alias ? selection.name.value : undefined,
-          _buildDynamicFieldMap(variables, fragments, selection.selectionSet));
+          _buildDynamicFieldMap(variables, fragments, selection.selectionSet),
+          selectionConditions.length ? [selectionConditions] : undefined,
+          isLocal || undefined);
       } else if (selection.selectionSet) {
         currentField = _buildDynamicFieldMap(variables, fragments, selection.selectionSet);
       }
 
-      if (currentField) {
-        (fieldMap || (fieldMap = {}))[currentKey] = currentField;
+      const previous = branch.fields[currentKey];
+      if (previous === undefined) {
+        branch.fields[currentKey] = currentField || null;
+      } else {
+        branch.fields[currentKey] = _mergeAll([previous, currentField || null]) || null;
       }
     }
-    // TODO: inline fragments.
   }
+}
 
-  return fieldMap;
+/**
+ * Combines the selections made for a response key by different branches of a
+ * selection set.
+ *
+ * If branches with different type conditions select it differently (e.g.
+ * `... on Photo { url }` and `... on Video { url: streamUrl }`), the selections
+ * are kept apart, as `DynamicFieldVariants`.  Otherwise they are merged.
+ */
+function _combineBranches(
+  selections: { typeCondition?: string, entry: DynamicFieldEntryWithVariables | null }[],
+): DynamicFieldEntryWithVariables | DynamicFieldVariantsWithVariables | undefined {
+  const typeConditions = new Set(selections.map(({ typeCondition }) => typeCondition));
+  const entries = selections.map(({ entry }) => entry);
+  const conflicting = entries.some((entry, index) => entries.slice(index + 1).some(other => _entriesConflict(entry, other)));
+  if (typeConditions.size < 2 || !conflicting) {
+    return _mergeAll(entries);
+  }
+
+  const conditional = {};
+  for (const typeCondition of typeConditions) {
+    if (typeCondition === undefined) continue;
+    conditional[typeCondition] = _mergeAll(selections
+      .filter(selection => selection.typeCondition === typeCondition)
+      .map(({ entry }) => entry));
+  }
+  const base = _mergeAll(selections.filter(({ typeCondition }) => typeCondition === undefined).map(({ entry }) => entry));
+
+  return new DynamicFieldVariants(base, conditional);
+}
+
+/**
+ * Merges selections of the same response key; null entries are unconditional
+ * selections of a plain field.
+ */
+function _mergeAll(
+  entries: (DynamicFieldEntryWithVariables | null)[],
+): DynamicFieldEntryWithVariables | undefined {
+  let merged: DynamicFieldEntryWithVariables | undefined;
+  for (const entry of entries) {
+    if (!entry) continue;
+    merged = merged ? _mergeEntries(merged, entry) : entry;
+  }
+
+  // Selected unconditionally somewhere.
+  if (merged instanceof DynamicField && merged.includeIf && entries.indexOf(null) !== -1) {
+    const { args, fieldName, children, isLocal } = merged;
+    if (!args && !fieldName && !children && !isLocal) return undefined;
+    return _dynamicFieldOrChildren(args, fieldName, children, undefined, isLocal);
+  }
+  return merged;
+}
+
+/**
+ * Whether two selections of the same response key disagree on the field (or
+ * arguments) they select.
+ */
+function _entriesConflict(
+  entry: DynamicFieldEntryWithVariables | DynamicFieldVariantsWithVariables | null | undefined,
+  other: DynamicFieldEntryWithVariables | DynamicFieldVariantsWithVariables | null | undefined,
+): boolean {
+  // We don't bother comparing variants; they're kept apart regardless.
+  if (entry instanceof DynamicFieldVariants || other instanceof DynamicFieldVariants) return true;
+
+  // Plain fields (and those with only dynamic children) have neither.
+  const entryField = entry instanceof DynamicField ? entry : undefined;
+  const otherField = other instanceof DynamicField ? other : undefined;
+  if ((entryField && entryField.fieldName) !== (otherField && otherField.fieldName)) return true;
+  if (!lodashIsEqual(entryField && entryField.args, otherField && otherField.args)) return true;
+
+  const children = entryField ? entryField.children : entry;
+  const otherChildren = otherField ? otherField.children : other;
+  if (!children || !otherChildren) return false;
+  return Object.keys(children).some(key => key in otherChildren && _entriesConflict(children[key], otherChildren[key]));
+}
+
+/**
+ * Merges two selections of the same response key.
+ */
+function _mergeDynamicFields<TArgTypes>(
+  target: DynamicFieldEntry<TArgTypes> | DynamicFieldVariants<TArgTypes>,
+  source: DynamicFieldEntry<TArgTypes> | DynamicFieldVariants<TArgTypes>,
+): DynamicFieldEntry<TArgTypes> | DynamicFieldVariants<TArgTypes> {
+  if (target instanceof DynamicFieldVariants || source instanceof DynamicFieldVariants) {
+    return _mergeVariants(_asVariants(target), _asVariants(source));
+  }
+  return _mergeEntries(target, source);
+}
+
+function _mergeEntries<TArgTypes>(
+  target: DynamicFieldEntry<TArgTypes>,
+  source: DynamicFieldEntry<TArgTypes>,
+): DynamicFieldEntry<TArgTypes> {
+  const targetChildren = target instanceof DynamicField ? target.children : target;
+  const sourceChildren = source instanceof DynamicField ? source.children : source;
+  let children = targetChildren || sourceChildren;
+  if (targetChildren && sourceChildren) {
+    children = _mergeDynamicFieldMaps(targetChildren, sourceChildren);
+  }
+
+  // The arguments (and field name) of a response key must be the same
+  // everywhere it is selected.
+  const field = source instanceof DynamicField ? source : target instanceof DynamicField ? target : undefined;
+  if (!field) return children!;
+
+  // The field is selected if either selection is.
+  let includeIf: SelectionCondition<TArgTypes>[][] | undefined;
+  if (target instanceof DynamicField && target.includeIf && source instanceof DynamicField && source.includeIf) {
+    includeIf = [...target.includeIf, ...source.includeIf];
+  }
+  const isLocal = (target instanceof DynamicField && target.isLocal) || (source instanceof DynamicField && source.isLocal);
+
+  return _dynamicFieldOrChildren(field.args, field.fieldName, children, includeIf, isLocal || undefined);
+}
+
+/**
+ * Builds a DynamicField, unless the field has no dynamic features of its own
+ * (in which case its children are hosted directly).
+ */
+function _dynamicFieldOrChildren<TArgTypes>(
+  args: NestedObject<TArgTypes> | undefined,
+  fieldName: string | undefined,
+  children: DynamicFieldMap<TArgTypes> | undefined,
+  includeIf: SelectionCondition<TArgTypes>[][] | undefined,
+  isLocal: true | undefined,
+): DynamicFieldEntry<TArgTypes> {
+  if (!args && !fieldName && !includeIf && !isLocal && children) return children;
+  return new DynamicField(args, fieldName, children, includeIf, isLocal);
+}
+
+function _mergeDynamicFieldMaps<TArgTypes>(
+  target: DynamicFieldMap<TArgTypes>,
+  source: DynamicFieldMap<TArgTypes>,
+): DynamicFieldMap<TArgTypes> {
+  const merged: DynamicFieldMap<TArgTypes> = { ...target };
+  for (const key in source) {
+    merged[key] = key in merged ? _mergeDynamicFields(merged[key], source[key]) : source[key];
+  }
+
+  return merged;
+}
+
+function _asVariants<TArgTypes>(
+  entry: DynamicFieldEntry<TArgTypes> | DynamicFieldVariants<TArgTypes>,
+): DynamicFieldVariants<TArgTypes> {
+  return entry instanceof DynamicFieldVariants ? entry : new DynamicFieldVariants(entry, {});
+}
+
+function _mergeVariants<TArgTypes>(
+  target: DynamicFieldVariants<TArgTypes>,
+  source: DynamicFieldVariants<TArgTypes>,
+): DynamicFieldVariants<TArgTypes> {
+  const conditional = { ...target.conditional };
+  for (const typeCondition in source.conditional) {
+    conditional[typeCondition] = _mergeOptional(conditional[typeCondition], source.conditional[typeCondition]);
+  }
+
+  return new DynamicFieldVariants(_mergeOptional(target.base, source.base), conditional);
+}
+
+function _mergeOptional<TArgTypes>(
+  target: DynamicFieldEntry<TArgTypes> | undefined,
+  source: DynamicFieldEntry<TArgTypes> | undefined,
+): DynamicFieldEntry<TArgTypes> | undefined {
+  if (!target || !source) return target || source;
+  return _mergeEntries(target, source);
+}
+
+/**
+ * Determines which selection of a response key applies to the (containing)
+ * value, resolving any `DynamicFieldVariants` via its __typename.
+ *
+ * Without a `matcher` (or a value to match against), all variants apply.
+ */
+export function resolveDynamicField<TArgTypes = JsonScalar>(
+  entry: DynamicFieldEntry<TArgTypes> | DynamicFieldVariants<TArgTypes> | undefined,
+  value: any,
+  matcher?: TypeConditionMatcher,
+): DynamicFieldEntry<TArgTypes> | undefined {
+  if (!(entry instanceof DynamicFieldVariants)) return entry;
+
+  let resolved = entry.base;
+  for (const typeCondition in entry.conditional) {
+    if (matcher && isObject(value) && !matcher(typeCondition, value)) continue;
+    resolved = _mergeOptional(resolved, entry.conditional[typeCondition]);
+  }
+
+  return resolved;
 }
 
 /**
@@ -129,6 +427,31 @@ function _buildFieldArgs(variables: Set<string>, argumentsNode: ArgumentNode[]):
   return args;
 }
 
+/**
+ * Extracts the `@include` and `@skip` conditions of a selection.
+ */
+function _buildSelectionConditions(variables: Set<string>, selection: SelectionNode): SelectionCondition<JsonAndArgs>[] {
+  const conditions: SelectionCondition<JsonAndArgs>[] = [];
+  for (const directive of selection.directives || []) {
+    const name = directive.name.value;
+    if (name !== 'include' && name !== 'skip') continue;
+    for (const argument of directive.arguments || []) {
+      if (argument.name.value !== 'if') continue;
+      conditions.push({ include: name === 'include', value: _valueFromNode(variables, argument.value) });
+    }
+  }
+
+  return conditions;
+}
+
+/**
+ * Whether a field is selected, given its (expanded) conditions.
+ */
+export function isFieldIncluded(field: DynamicFieldEntry | undefined): boolean {
+  if (!(field instanceof DynamicField) || !field.includeIf) return true;
+  return field.includeIf.some(conditions => conditions.every(({ include, value }) => include === !!value));
+}
+
 /**
  * Evaluate a ValueNode and yield its value in its natural JS form.
  */
@@ -161,20 +484,39 @@ export function expandVariables(
   const newMap = {};
   for (const key in map) {
     const entry = map[key];
-    if (entry instanceof DynamicField) {
-      newMap[key] = new DynamicField(
-        expandFieldArguments(entry.args, variables),
-        entry.fieldName,
-        expandVariables(entry.children, variables),
-      );
+    if (entry instanceof DynamicFieldVariants) {
+      const conditional = {};
+      for (const typeCondition in entry.conditional) {
+        conditional[typeCondition] = _expandEntry(entry.conditional[typeCondition], variables);
+      }
+      newMap[key] = new DynamicFieldVariants(_expandEntry(entry.base, variables), conditional);
     } else {
-      newMap[key] = expandVariables(entry, variables);
+      newMap[key] = _expandEntry(entry, variables);
     }
   }
 
   return newMap;
 }
 
+function _expandEntry(
+  entry: DynamicFieldEntryWithVariables | undefined,
+  variables: JsonObject | undefined,
+): DynamicFieldEntry | undefined {
+  if (entry instanceof DynamicField) {
+    return new DynamicField(
+      expandFieldArguments(entry.args, variables),
+      entry.fieldName,
+      expandVariables(entry.children, variables),
+      entry.includeIf && entry.includeIf.map(conditions => conditions.map(({ include, value }) => ({
+        include,
+        value: _expandArgument(value, variables),
+      }))),
+      entry.isLocal,
+    );
+  }
+  return expandVariables(entry, variables);
+}
+
 /**
  * Sub values in for any variables required by a field's args.
  */
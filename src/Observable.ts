@@ -0,0 +1,166 @@
+/**
+ * The key that interop libraries (e.g. RxJS' `from`) look for when converting
+ * foreign observables.
+ */
+function observableKey(): symbol | string {
+  return (typeof Symbol === 'function' && Symbol.observable) || '@@observable';
+}
+
+/**
+ * Receives values from an observable.
+ */
+export interface Observer<T> {
+  next?(value: T): void;
+  error?(error: any): void;
+  complete?(): void;
+}
+
+/**
+ * A handle to an active subscription.
+ */
+export interface Subscription {
+  /** Whether the subscription has been closed. */
+  readonly closed: boolean;
+  /** Stops receiving values, and releases any resources held. */
+  unsubscribe(): void;
+}
+
+/**
+ * The observer passed to an observable's subscriber function; it ignores any
+ * calls made once the subscription has closed.
+ */
+export interface SubscriptionObserver<T> {
+  readonly closed: boolean;
+  next(value: T): void;
+  error(error: any): void;
+  complete(): void;
+}
+
+export type SubscriberFunction<T> = (observer: SubscriptionObserver<T>) => (() => void) | void;
+
+/**
+ * A minimal implementation of the ES Observable proposal, sufficient for
+ * delivering values to (and interoperating with) RxJS-style consumers.
+ *
+ * @see https://github.com/tc39/proposal-observable
+ */
+export class Observable<T> {
+
+  constructor(
+    /** Called for every new subscription; returns a teardown function. */
+    private _subscriber: SubscriberFunction<T>,
+  ) {}
+
+  /**
+   * Begins receiving values from the observable.
+   *
+   * Accepts either an observer, or individual callbacks.
+   */
+  subscribe(
+    observerOrNext?: Observer<T> | ((value: T) => void),
+    error?: (error: any) => void,
+    complete?: () => void,
+  ): Subscription {
+    const observer: Observer<T> = typeof observerOrNext === 'function'
+      ? { next: observerOrNext, error, complete }
+      : observerOrNext || {};
+
+    return new ObservableSubscription(observer, this._subscriber);
+  }
+
+  /**
+   * Interop with other observable implementations.
+   */
+  '@@observable'() {
+    return this;
+  }
+
+}
+
+// Resolved as this module is loaded, so any `Symbol.observable` polyfill must
+// be loaded first.
+const OBSERVABLE_KEY = observableKey();
+if (OBSERVABLE_KEY !== '@@observable') {
+  Object.defineProperty(Observable.prototype, OBSERVABLE_KEY, { value: Observable.prototype['@@observable'] });
+}
+
+/**
+ * Tracks the state of an individual subscription.
+ */
+class ObservableSubscription<T> implements Subscription, SubscriptionObserver<T> {
+
+  /** Whether the subscription has been closed. */
+  closed = false;
+
+  /** The observer receiving values, or undefined once closed. */
+  private _observer: Observer<T> | undefined;
+  /** Releases any resources held by the subscriber. */
+  private _teardown: (() => void) | void = undefined;
+
+  constructor(observer: Observer<T>, subscriber: SubscriberFunction<T>) {
+    this._observer = observer;
+
+    let teardown;
+    try {
+      teardown = subscriber(this);
+    } catch (error) {
+      this.error(error);
+      return;
+    }
+
+    // The subscription may have been closed during the initial call.
+    if (this.closed) {
+      if (teardown) teardown();
+    } else {
+      this._teardown = teardown;
+    }
+  }
+
+  next(value: T): void {
+    const observer = this._observer;
+    if (observer && observer.next) {
+      observer.next(value);
+    }
+  }
+
+  error(error: any): void {
+    const observer = this._close();
+    if (!observer) return;
+    if (!observer.error) {
+      // Report it without interrupting whoever signaled the error.
+      setTimeout(() => {
+        throw error;
+      });
+      return;
+    }
+    observer.error(error);
+  }
+
+  complete(): void {
+    const observer = this._close();
+    if (observer && observer.complete) {
+      observer.complete();
+    }
+  }
+
+  unsubscribe(): void {
+    this._close();
+  }
+
+  /**
+   * Closes the subscription (if open), returning the observer it had.
+   */
+  private _close(): Observer<T> | undefined {
+    const observer = this._observer;
+    if (!observer) return undefined;
+
+    this._observer = undefined;
+    this.closed = true;
+    const teardown = this._teardown;
+    this._teardown = undefined;
+    if (teardown) teardown();
+
+    return observer;
+  }
+
+}
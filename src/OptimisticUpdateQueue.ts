@@ -38,7 +38,14 @@ export class OptimisticUpdateQueue {
    * Removes an update from the queue.
    */
   remove(id: ChangeId): OptimisticUpdateQueue {
-    return new OptimisticUpdateQueue(this._updates.filter(u => u.id === id));
+    return new OptimisticUpdateQueue(this._updates.filter(u => u.id !== id));
+  }
+
+  /**
+   * The ids of all updates in the queue, oldest first.
+   */
+  changeIds(): ChangeId[] {
+    return this._updates.map(u => u.id);
   }
 
   /**
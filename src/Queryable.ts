@@ -1,3 +1,4 @@
+import { MissingValue } from './operations';
 import { JsonObject, JsonValue } from './primitive';
 import { Query } from './schema';
 
@@ -10,10 +11,13 @@ export interface Queryable {
   /**
    * Reads the selection expressed by a query from the cache.
    *
+   * The values missing from incomplete results are only described if
+   * `includeMissing` is requested.
+   *
    * TODO: Can we drop non-optimistic reads?
    * https://github.com/apollographql/apollo-client/issues/1971#issuecomment-319402170
    */
-  read(query: Query, optimistic?: boolean): { result?: JsonValue, complete: boolean };
+  read(query: Query, optimistic?: boolean, includeMissing?: boolean): { result?: JsonValue, complete: boolean, missing?: MissingValue[] };
 
   /**
    * Writes values for a selection to the cache.
@@ -1,5 +1,6 @@
 import { Cache } from '../Cache';
 import { CacheContext } from '../context';
+import { SerializedGraph } from '../schema';
 
 import { ApolloQueryable } from './ApolloQueryable';
 import { ApolloTransaction } from './ApolloTransaction';
@@ -14,15 +15,28 @@ export class ApolloCache extends ApolloQueryable implements interfaces.Cache {
   /** The underlying Hermes cache. */
   protected _queryable: Cache;
 
-  constructor(configuration?: CacheContext) {
+  constructor(configuration?: CacheContext.Configuration) {
     super();
     this._queryable = new Cache(configuration);
   }
 
+  extract(optimistic = false): SerializedGraph {
+    return this._queryable.extract(optimistic);
+  }
+
+  restore(data: SerializedGraph): this {
+    this._queryable.restore(data);
+    return this;
+  }
+
   reset(): Promise<void> {
     return this._queryable.reset();
   }
 
+  evict(id: string): void {
+    this._queryable.evict(id);
+  }
+
   removeOptimistic(id: string): void {
     this._queryable.rollback(id);
   }
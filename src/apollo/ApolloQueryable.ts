@@ -1,5 +1,7 @@
+import { MissingValue } from '../operations';
 import { JsonObject } from '../primitive';
 import { Queryable } from '../Queryable';
+import { formatPath, queryForValue } from '../util';
 
 import * as interfaces from './interfaces';
 import { toQuery } from './util';
@@ -15,8 +17,8 @@ export abstract class ApolloQueryable {
     const query = toQuery(options.query, options.variables);
     const { result, complete } = this._queryable.read(query, options.optimistic);
     if (options.returnPartialData === false && !complete) {
-      // TODO: Include more detail with this error.
-      throw new Error(`diffQuery not satisfied by the cache.`);
+      const { missing } = this._queryable.read(query, options.optimistic, true);
+      throw new Error(`diffQuery not satisfied by the cache.${_describeMissing(missing)}`);
     }
 
     return { result, isMissing: !complete };
@@ -26,8 +28,8 @@ export abstract class ApolloQueryable {
     const query = toQuery(options.query, options.variables, options.rootId);
     const { result, complete } = this._queryable.read(query, options.optimistic);
     if (!complete) {
-      // TODO: Include more detail with this error.
-      throw new Error(`read not satisfied by the cache.`);
+      const { missing } = this._queryable.read(query, options.optimistic, true);
+      throw new Error(`read not satisfied by the cache.${_describeMissing(missing)}`);
     }
 
     return result;
@@ -62,4 +64,21 @@ export abstract class ApolloQueryable {
     const query = toQuery(options.fragment, options.variables as JsonObject, options.id);
     this._queryable.write(query, options.data);
   }
+
+  writeData(options: interfaces.Cache.WriteDataOptions): void {
+    const query = toQuery(queryForValue(options.data), undefined, options.id);
+    this._queryable.write(query, options.data);
+  }
+}
+
+/**
+ * Summarizes the values missing from a read, for error messages.
+ */
+function _describeMissing(missing?: MissingValue[]): string {
+  if (!missing || !missing.length) return '';
+  const descriptions = missing.map(({ path, nodeId, parameterizedValueAbsent }) => {
+    const location = parameterizedValueAbsent ? `parameterized value ${nodeId} is absent` : `in ${nodeId}`;
+    return `${formatPath(path) || '(root)'} (${location})`;
+  });
+  return ` Missing: ${descriptions.join(', ')}`;
 }
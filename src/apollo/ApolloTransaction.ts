@@ -24,7 +24,7 @@ export class ApolloTransaction extends ApolloQueryable implements interfaces.Cac
   }
 
   performTransaction(transaction: interfaces.Cache.Transaction): void {
-    transaction(this);
+    this._queryable.transaction(t => transaction(new ApolloTransaction(t)));
   }
 
   recordOptimisticTransaction(transaction: interfaces.Cache.Transaction, id: string): void { // eslint-disable-line class-methods-use-this
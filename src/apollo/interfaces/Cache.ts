@@ -48,6 +48,8 @@ export namespace Cache {
 
   export import WriteFragmentOptions = DataProxy.WriteFragmentOptions;
 
+  export import WriteDataOptions = DataProxy.WriteDataOptions;
+
   export interface WatchOptions {
     query: DocumentNode;
     variables: any;
@@ -80,6 +82,8 @@ export interface Cache extends DataProxy {
 
   writeFragment(options: Cache.WriteFragmentOptions): void;
 
+  writeData(options: Cache.WriteDataOptions): void;
+
   removeOptimistic(id: string): void;
 
   performTransaction(transaction: Cache.Transaction): void;
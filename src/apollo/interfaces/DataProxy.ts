@@ -105,6 +105,19 @@ export namespace DataProxy {
     variables?: Object;
   }
 
+  export interface WriteDataOptions {
+    /**
+     * The data you will be writing to the store.  Its shape determines which
+     * fields are written.
+     */
+    data: any;
+
+    /**
+     * The root id to be used.  By default, the root query id.
+     */
+    id?: string;
+  }
+
 }
 
 /**
@@ -139,4 +152,10 @@ export interface DataProxy {
    * provided to select the correct fragment.
    */
   writeFragment(options: DataProxy.WriteFragmentOptions): void;
+
+  /**
+   * Writes data to any arbitrary id (the root query id, by default), without
+   * a query; e.g. to seed local-only (`@client`) fields.
+   */
+  writeData(options: DataProxy.WriteDataOptions): void;
 }
@@ -1,11 +1,12 @@
 import { DocumentNode } from 'graphql'; // eslint-disable-line import/no-extraneous-dependencies, import/no-unresolved
 import lodashIsEqual = require('lodash.isequal');
 
-import { expandVariables } from '../DynamicField';
-import { JsonObject } from '../primitive';
+import { expandVariables, TypeConditionMatcher } from '../DynamicField';
+import { JsonObject, JsonValue } from '../primitive';
 import { EntityId, ParsedQuery, Query } from '../schema';
-import { addToSet, addTypenameToDocument, isObject } from '../util';
+import { addToSet, addTypenameToDocument, canonicalJson, isObject } from '../util';
 
+import { CommitMetricsCallback, MetricsCollector } from './MetricsCollector';
 import { QueryInfo } from './QueryInfo';
 
 export namespace CacheContext {
@@ -13,12 +14,133 @@ export namespace CacheContext {
   export type EntityIdForNode = (node: JsonObject) => EntityId | undefined;
   export type EntityIdMapper = (node: JsonObject) => string | number | undefined;
   export type EntityTransformer = (node: JsonObject) => void;
+  export type NotificationScheduler = (flush: () => void) => void;
+  export type EntityFetchStrategy = (id: EntityId, typeName: string | undefined) => EntityFetchField | undefined;
+  export type LocalResolver = (parent: JsonObject, args: JsonObject) => JsonValue | undefined;
+  export type ReadPolicy = (args: JsonObject) => string | number | undefined;
+  export type FieldMerger = (
+    existing: JsonValue | undefined,
+    incoming: JsonValue,
+    args: JsonObject,
+    context: FieldMergeContext,
+  ) => JsonValue;
+  export type KeyArgsFunction = (args: JsonObject) => JsonObject;
   export type LogEmitter = (message: string, ...metadata: any[]) => void;
   export interface Logger {
     warn: LogEmitter;
     error: LogEmitter;
   }
 
+  /**
+   * The types that satisfy each abstract type (interface or union), by name.
+   */
+  export interface PossibleTypes {
+    [AbstractType: string]: string[];
+  }
+
+  /**
+   * The relevant portion of a schema introspection query's result.
+   */
+  export interface IntrospectionResult {
+    __schema: {
+      types: { name: string, possibleTypes?: { name: string }[] | null }[],
+    };
+  }
+
+  /**
+   * Resolvers for local-only (`@client`) fields, by type and field name.
+   */
+  export interface LocalResolvers {
+    [TypeName: string]: { [FieldName: string]: LocalResolver };
+  }
+
+  /**
+   * Read policies for parameterized fields, by type and field name.
+   */
+  export interface ReadPolicies {
+    [TypeName: string]: { [FieldName: string]: ReadPolicy };
+  }
+
+  /**
+   * Converts the values of a custom scalar between their stored (JSON) form,
+   * and the form the application works with (e.g. `Date` instances).
+   *
+   * Written values that are JSON scalars (strings, numbers, booleans) are
+   * assumed to be serialized already; `serialize` is called with any others,
+   * including objects that are already in their serialized form.
+   */
+  export interface ScalarCodec<TParsed = any> {
+    serialize(value: TParsed): JsonValue;
+    parse(value: JsonValue): TParsed;
+  }
+
+  /**
+   * Cache state made available to field merge functions.
+   */
+  export interface FieldMergeContext {
+    entityIdForNode: EntityIdForNode;
+  }
+
+  /**
+   * Determines how the values of a parameterized field are stored.
+   */
+  export interface FieldPolicy {
+    /**
+     * The arguments that distinguish values of the field from each other.
+     * Values written with arguments that differ only in others (e.g. the
+     * `after` and `first` of a paginated field) are stored, and read, as one.
+     *
+     * Either a list of argument names, or a function that returns the key
+     * arguments of the field's arguments.  By default, all arguments are key
+     * arguments.
+     */
+    keyArgs?: string[] | KeyArgsFunction;
+
+    /**
+     * Combines an incoming value of the field with the value already stored
+     * (if any), returning the value to store; e.g. appending a page to a list.
+     */
+    merge?: FieldMerger;
+  }
+
+  /**
+   * Field policies for parameterized fields, by type and field name.
+   */
+  export interface FieldPolicies {
+    [TypeName: string]: { [FieldName: string]: FieldPolicy };
+  }
+
+  /**
+   * Determines how the entities of a type are identified.
+   */
+  export interface TypePolicy {
+    /**
+     * The fields whose values identify an entity of the type; either field
+     * names, or dotted paths to fields of nested values (e.g. `author.name`).
+     * Their values should be scalars.
+     *
+     * Entities are given ids of the form `Typename:value` for a single key
+     * field, and `Typename:{"author":{"name":…},"title":…}` (in canonical
+     * JSON) for composite or nested key fields.
+     */
+    keyFields: string[];
+  }
+
+  /**
+   * Type policies, by __typename.
+   */
+  export interface TypePolicies {
+    [TypeName: string]: TypePolicy;
+  }
+
+  /**
+   * A root field that selects a single entity, e.g. `node(id: "1")`.
+   */
+  export interface EntityFetchField {
+    fieldName: string;
+    args: JsonObject;
+  }
+
   /**
    * Configuration for a Hermes cache.
    */
@@ -36,6 +158,16 @@ export namespace CacheContext {
      */
     entityIdForNode?: EntityIdMapper;
 
+    /**
+     * Policies for identifying entities, by __typename.  See `TypePolicy`.
+     *
+     * Nodes whose __typename has a policy are identified by their key fields
+     * (and are not entities if any are missing), and all others by
+     * `entityIdForNode`.  Written queries must select the key fields of every
+     * such node.
+     */
+    typePolicies?: TypePolicies;
+
     /**
      * The logger to use when emitting messages. By default, `console`.
      */
@@ -46,6 +178,118 @@ export namespace CacheContext {
      * write operation; an entity node is defined by `entityIdForNode`.
      */
     entityTransformer?: EntityTransformer;
+
+    /**
+     * If set, the cache will automatically garbage collect unreachable nodes
+     * after every `gcInterval` committed transactions.
+     *
+     * By default, garbage collection only occurs when requested (`Cache.gc()`).
+     */
+    gcInterval?: number;
+
+    /**
+     * If set, the cache will retain up to `historySize` previous versions of
+     * itself, which can be returned to via `Cache.undo()` (and `redo()`).
+     *
+     * By default, no history is kept.
+     */
+    historySize?: number;
+
+    /**
+     * Whether to collect runtime metrics (see `Cache.getMetrics()`).
+     */
+    collectMetrics?: boolean;
+
+    /**
+     * If set, metrics are collected, and this is called with the metrics
+     * accumulated by each commit.
+     */
+    onCommitMetrics?: CommitMetricsCallback;
+
+    /**
+     * Determines when query observers are notified of changes.  Any commits
+     * made before the notification occurs are coalesced, such that each
+     * observer is called at most once per batch.
+     *
+     * * `'sync'` (the default): observers are notified as part of each commit.
+     * * `'microtask'`: observers are notified at the end of the current tick.
+     * * A function: called with a `flush` callback that it should eventually
+     *   call, e.g. `flush => requestAnimationFrame(flush)`.
+     */
+    notificationScheduler?: 'sync' | 'microtask' | NotificationScheduler;
+
+    /**
+     * Determines how entities can be fetched directly, allowing queries for
+     * missing values (see `Cache.missingQuery()`) to be rooted at the deepest
+     * entity that contains them.
+     *
+     * * `'node'`: entities are fetched via `node(id: …)`.
+     * * A function: given an entity's id (and `__typename`, if known), returns
+     *   the root field that fetches it, or undefined if there is none.
+     *
+     * By default, missing values are always fetched from the query's root.
+     */
+    entityFetchStrategy?: 'node' | EntityFetchStrategy;
+
+    /**
+     * The concrete types that satisfy each interface or union in the schema;
+     * either as a map, or the result of an introspection query.
+     *
+     * When provided, fragments only apply to values (with a __typename) that
+     * satisfy their type conditions.  Otherwise, a fragment on a type other
+     * than a value's own is assumed to be on an abstract type, and to apply.
+     */
+    possibleTypes?: PossibleTypes | IntrospectionResult;
+
+    /**
+     * Resolvers for local-only fields (those marked `@client` in queries), by
+     * the __typename of the value containing them (or `Query`, `Mutation` and
+     * `Subscription` for the values of root nodes), and then field name.
+     *
+     * Resolvers are called at read time with the (cached) value containing the
+     * field, and the field's arguments.  They should be pure functions of
+     * those, as their results are memoized alongside the cache's contents.
+     *
+     * Local fields without a resolver read whatever value was written for
+     * them (e.g. via `ApolloCache.writeData()`).
+     */
+    resolvers?: LocalResolvers;
+
+    /**
+     * Read policies for parameterized fields, by the __typename of the value
+     * containing them (or `Query`, etc, for root nodes), and then field name.
+     *
+     * When a parameterized field has no value in the cache, its read policy
+     * (if any) is called with the field's arguments, and can return the id of
+     * an entity to read in its place; e.g. `Query: { user: args => args.id }`
+     * allows `user(id: "1")` to read entity `1`, regardless of how it was
+     * written.
+     */
+    readPolicies?: ReadPolicies;
+
+    /**
+     * Policies for storing parameterized fields, by the __typename of the
+     * value containing them (or `Query`, etc, for root nodes), and then field
+     * name.  See `FieldPolicy`.
+     */
+    fieldPolicies?: FieldPolicies;
+
+    /**
+     * Codecs for custom scalars, by scalar name.
+     *
+     * Values of custom scalar fields (see `scalarFields`) are stored in their
+     * serialized form; values written that aren't JSON scalars are serialized
+     * (and compared to stored values that way).  Reads parse them, once per
+     * version of the cache.
+     */
+    scalars?: { [ScalarName: string]: ScalarCodec };
+
+    /**
+     * The fields whose values are custom scalars, by the __typename of the
+     * value containing them (or `Query`, etc, for root nodes), and then field
+     * name; e.g. `{ Post: { createdAt: 'DateTime' } }`.
+     */
+    scalarFields?: { [TypeName: string]: { [FieldName: string]: string } };
   }
 
 }
@@ -61,22 +305,72 @@ export class CacheContext {
   /** Run transformation on changed entity node, if any. */
   readonly entityTransformer: CacheContext.EntityTransformer | undefined;
 
+  /** The number of commits between automatic garbage collections, if any. */
+  readonly gcInterval: number | undefined;
+
+  /** The number of versions of the cache to retain for undo, if any. */
+  readonly historySize: number | undefined;
+
+  /** Collects runtime metrics, if enabled. */
+  readonly metrics: MetricsCollector | undefined;
+
+  /** Schedules a flush of pending observer notifications. */
+  readonly scheduleNotifications: CacheContext.NotificationScheduler;
+
+  /** Determines how to fetch entities directly, if they can be. */
+  readonly entityFetchStrategy: CacheContext.EntityFetchStrategy | undefined;
+
+  /** Whether a fragment's type condition applies to a value. */
+  readonly matchesTypeCondition: TypeConditionMatcher;
+
+  /** The logger we should use. */
+  readonly logger: CacheContext.Logger;
+
+  /** Whether any fields are custom scalars (see `scalarCodec`). */
+  readonly hasScalarFields: boolean;
+
   /** Whether __typename should be injected into nodes in queries. */
   private readonly _addTypename: boolean;
+  /** Policies for identifying entities, by __typename. */
+  private readonly _typePolicies: CacheContext.TypePolicies;
+  /** Resolvers for local-only fields, by type and field name. */
+  private readonly _resolvers: CacheContext.LocalResolvers;
+  /** Read policies for parameterized fields, by type and field name. */
+  private readonly _readPolicies: CacheContext.ReadPolicies;
+  /** Storage policies for parameterized fields, by type and field name. */
+  private readonly _fieldPolicies: CacheContext.FieldPolicies;
+  /** Codecs for custom scalars, by scalar name. */
+  private readonly _scalars: { [ScalarName: string]: CacheContext.ScalarCodec };
+  /** The custom scalar of fields, by type and field name. */
+  private readonly _scalarFields: { [TypeName: string]: { [FieldName: string]: string } };
   /** All currently known & processed GraphQL documents. */
   private readonly _queryInfoMap = new Map<string, QueryInfo>();
   /** All currently known & parsed queries, for identity mapping. */
   private readonly _parsedQueriesMap = new Map<string, ParsedQuery[]>();
   /** All queries that have been successfully written to the cache. */
   private readonly _writtenQueries = new Set<ParsedQuery>();
-  /** The logger we should use. */
-  private readonly _logger: CacheContext.Logger;
 
   constructor(config: CacheContext.Configuration = {}) {
     this._addTypename = config.addTypename || false;
-    this.entityIdForNode = _makeEntityIdMapper(config.entityIdForNode);
+    this._typePolicies = config.typePolicies || {};
+    this.entityIdForNode = _makeEntityIdMapper(config.entityIdForNode, this._typePolicies);
     this.entityTransformer = config.entityTransformer;
-    this._logger = config.logger || {
+    this.gcInterval = config.gcInterval;
+    this.historySize = config.historySize;
+    if (config.collectMetrics || config.onCommitMetrics) {
+      this.metrics = new MetricsCollector(config.onCommitMetrics);
+    }
+    this.scheduleNotifications = _makeNotificationScheduler(config.notificationScheduler);
+    this.entityFetchStrategy = _makeEntityFetchStrategy(config.entityFetchStrategy);
+    this.matchesTypeCondition = _makeTypeConditionMatcher(config.possibleTypes);
+    this._resolvers = config.resolvers || {};
+    this._readPolicies = config.readPolicies || {};
+    this._fieldPolicies = config.fieldPolicies || {};
+    this._scalars = config.scalars || {};
+    this._scalarFields = config.scalarFields || {};
+    _assertScalarCodecs(this._scalars, this._scalarFields);
+    this.hasScalarFields = Object.keys(this._scalarFields).length > 0;
+    this.logger = config.logger || {
       warn:  console.warn  ? console.warn.bind(console)  : console.log.bind(console), // eslint-disable-line no-console
       error: console.error ? console.error.bind(console) : console.log.bind(console), // eslint-disable-line no-console
     };
@@ -123,14 +417,79 @@ export class CacheContext {
    * Emit a warning.
    */
   warn(message: string, ...metadata: any[]): void {
-    this._logger.warn(message, ...metadata);
+    this.logger.warn(message, ...metadata);
   }
 
   /**
    * Emit a non-blocking error.
    */
   error(message: string, ...metadata: any[]): void {
-    this._logger.error(message, ...metadata);
+    this.logger.error(message, ...metadata);
+  }
+
+  /**
+   * The resolver for a local-only field of a type, if there is one.
+   */
+  localResolver(typeName: string | undefined, fieldName: string): CacheContext.LocalResolver | undefined {
+    return _fieldPolicy(this._resolvers, typeName, fieldName);
+  }
+
+  /**
+   * The read policy for a parameterized field of a type, if there is one.
+   */
+  readPolicy(typeName: string | undefined, fieldName: string): CacheContext.ReadPolicy | undefined {
+    return _fieldPolicy(this._readPolicies, typeName, fieldName);
+  }
+
+  /**
+   * The storage policy for a parameterized field of a type, if there is one.
+   */
+  fieldPolicy(typeName: string | undefined, fieldName: string): CacheContext.FieldPolicy | undefined {
+    return _fieldPolicy(this._fieldPolicies, typeName, fieldName);
+  }
+
+  /**
+   * The codec for a field of a type, if its values are a custom scalar.
+   */
+  scalarCodec(typeName: string | undefined, fieldName: string): CacheContext.ScalarCodec | undefined {
+    const scalarName = _fieldPolicy(this._scalarFields, typeName, fieldName);
+    return scalarName === undefined ? undefined : this._scalars[scalarName];
+  }
+
+  /**
+   * The key fields (per its type's policy) that are missing from a node.
+   */
+  missingKeyFields(node: JsonObject): string[] {
+    const policy = _typePolicy(this._typePolicies, node);
+    if (!policy) return [];
+    return policy.keyFields.filter(path => _valueAtKeyPath(node, path) === undefined);
+  }
+
+  /**
+   * The key fields (as dotted paths) of every type with a policy.
+   */
+  typePolicyKeyFields(): string[] {
+    const paths: string[] = [];
+    for (const typeName of Object.keys(this._typePolicies)) {
+      paths.push(...this._typePolicies[typeName].keyFields);
+    }
+    return paths;
+  }
+
+  /**
+   * The arguments that identify the stored value of a parameterized field;
+   * those of `args` that are key arguments per its policy.
+   */
+  keyArgs(typeName: string | undefined, fieldName: string, args: JsonObject): JsonObject {
+    const policy = this.fieldPolicy(typeName, fieldName);
+    if (!policy || !policy.keyArgs) return args;
+    if (typeof policy.keyArgs === 'function') return policy.keyArgs(args);
+
+    const keyArgs = {};
+    for (const name of policy.keyArgs) {
+      if (name in args) keyArgs[name] = args[name];
+    }
+    return keyArgs;
   }
 
   /**
@@ -140,12 +499,23 @@ export class CacheContext {
     addToSet(this._writtenQueries, parsed);
   }
 
+  /**
+   * Forget all queries that were previously marked as written.
+   *
+   * Used when reachable nodes are explicitly removed from the graph (e.g. via
+   * eviction), as previously written queries may no longer be complete.
+   */
+  clearWrittenQueries(): void {
+    this._writtenQueries.clear();
+  }
+
   /**
    * Whether we've previously written a query to the cache (and that reads
    * against it should be considered complete).
    *
    * Once written, it's impossible for a read of that same query to be
-   * considered incomplete (we never remove reachable nodes in the graph).
+   * considered incomplete (we never remove reachable nodes in the graph, short
+   * of an explicit eviction - which clears this state).
    */
   wasQueryWritten(parsed: ParsedQuery): boolean {
     return this._writtenQueries.has(parsed);
@@ -168,14 +538,19 @@ export class CacheContext {
 }
 
 /**
- * Wrap entityIdForNode so that it coerces all values to strings.
+ * Wrap entityIdForNode so that it coerces all values to strings, and so that
+ * nodes of types with a policy are identified by their key fields instead.
  */
 export function _makeEntityIdMapper(
   mapper: CacheContext.EntityIdMapper = defaultEntityIdMapper,
+  typePolicies: CacheContext.TypePolicies = {},
 ): CacheContext.EntityIdForNode {
   return function entityIdForNode(node: JsonObject) {
     if (!isObject(node)) return undefined;
 
+    const policy = _typePolicy(typePolicies, node);
+    if (policy) return _keyFieldsEntityId(node.__typename as string, policy.keyFields, node);
+
     // We don't trust upstream implementations.
     const entityId = mapper(node);
     if (typeof entityId === 'string') return entityId;
@@ -184,6 +559,157 @@ export function _makeEntityIdMapper(
   };
 }
 
+/**
+ * Resolve the configured notification scheduler to a function.
+ */
+export function _makeNotificationScheduler(
+  scheduler: CacheContext.Configuration['notificationScheduler'] = 'sync',
+): CacheContext.NotificationScheduler {
+  if (scheduler === 'sync') {
+    return flush => flush();
+  } else if (scheduler === 'microtask') {
+    return (flush) => {
+      Promise.resolve().then(flush);
+    };
+  }
+  return scheduler;
+}
+
+/**
+ * Resolve the configured entity fetch strategy to a function (if any).
+ */
+export function _makeEntityFetchStrategy(
+  strategy?: CacheContext.Configuration['entityFetchStrategy'],
+): CacheContext.EntityFetchStrategy | undefined {
+  if (strategy === 'node') {
+    return id => ({ fieldName: 'node', args: { id } });
+  }
+  return strategy;
+}
+
+/**
+ * Builds a matcher for fragment type conditions from the configured possible
+ * types (if any).
+ */
+export function _makeTypeConditionMatcher(
+  possibleTypes?: CacheContext.Configuration['possibleTypes'],
+): TypeConditionMatcher {
+  const subtypes = possibleTypes && _expandPossibleTypes(
+    '__schema' in possibleTypes
+      ? _possibleTypesFromIntrospection(possibleTypes as CacheContext.IntrospectionResult)
+      : possibleTypes as CacheContext.PossibleTypes
+  );
+
+  return function matchesTypeCondition(typeCondition: string, value: JsonObject) {
+    const { __typename } = value;
+    if (typeof __typename !== 'string' || __typename === typeCondition) return true;
+    // Without knowledge of the schema, we have to assume that the condition is
+    // on an abstract type that the value satisfies.
+    if (!subtypes) return true;
+
+    const possible = subtypes.get(typeCondition);
+    return !!possible && possible.has(__typename);
+  };
+}
+
+function _typePolicy(typePolicies: CacheContext.TypePolicies, node: JsonObject): CacheContext.TypePolicy | undefined {
+  const { __typename } = node;
+  if (typeof __typename !== 'string' || !Object.prototype.hasOwnProperty.call(typePolicies, __typename)) return undefined;
+  return typePolicies[__typename];
+}
+
+/**
+ * Builds the id of an entity from the values of its key fields, or undefined
+ * if any are missing.
+ */
+function _keyFieldsEntityId(typeName: string, keyFields: string[], node: JsonObject): EntityId | undefined {
+  const values = keyFields.map(path => _valueAtKeyPath(node, path));
+  if (values.some(value => value === undefined)) return undefined;
+
+  const [value] = values;
+  if (keyFields.length === 1 && keyFields[0].indexOf('.') === -1 && (typeof value === 'string' || typeof value === 'number')) {
+    return `${typeName}:${value}`;
+  }
+
+  const key = {};
+  keyFields.forEach((path, index) => {
+    const parts = path.split('.');
+    let container = key;
+    for (const part of parts.slice(0, -1)) {
+      if (!isObject(container[part])) container[part] = {};
+      container = container[part];
+    }
+    container[parts[parts.length - 1]] = values[index];
+  });
+  return `${typeName}:${canonicalJson(key)}`;
+}
+
+function _valueAtKeyPath(node: JsonObject, path: string): JsonValue | undefined {
+  let value: JsonValue | undefined = node;
+  for (const part of path.split('.')) {
+    if (!isObject(value)) return undefined;
+    value = value[part];
+  }
+  return value;
+}
+
+function _fieldPolicy<TPolicy>(
+  policies: { [TypeName: string]: { [FieldName: string]: TPolicy } },
+  typeName: string | undefined,
+  fieldName: string,
+): TPolicy | undefined {
+  if (typeName === undefined) return undefined;
+  const typePolicies = policies[typeName];
+  return typePolicies && typePolicies[fieldName];
+}
+
+/**
+ * Ensures that every custom scalar field has a codec.
+ */
+function _assertScalarCodecs(
+  scalars: { [ScalarName: string]: CacheContext.ScalarCodec },
+  scalarFields: { [TypeName: string]: { [FieldName: string]: string } },
+): void {
+  for (const typeName of Object.keys(scalarFields)) {
+    for (const fieldName of Object.keys(scalarFields[typeName])) {
+      const scalarName = scalarFields[typeName][fieldName];
+      if (!(scalarName in scalars)) {
+        throw new Error(`No codec for scalar ${scalarName} (of ${typeName}.${fieldName}) was configured`);
+      }
+    }
+  }
+}
+
+function _possibleTypesFromIntrospection({ __schema }: CacheContext.IntrospectionResult): CacheContext.PossibleTypes {
+  const possibleTypes: CacheContext.PossibleTypes = {};
+  for (const type of __schema.types) {
+    if (!type.possibleTypes) continue;
+    possibleTypes[type.name] = type.possibleTypes.map(({ name }) => name);
+  }
+
+  return possibleTypes;
+}
+
+/**
+ * Resolves every type that (transitively) satisfies each abstract type.
+ */
+function _expandPossibleTypes(possibleTypes: CacheContext.PossibleTypes): Map<string, Set<string>> {
+  const subtypes = new Map<string, Set<string>>();
+  for (const abstractType of Object.keys(possibleTypes)) {
+    const found = new Set<string>();
+    const queue = [...possibleTypes[abstractType]];
+    while (queue.length) {
+      const type = queue.pop()!;
+      if (found.has(type)) continue;
+      found.add(type);
+      queue.push(...(possibleTypes[type] || []));
+    }
+    subtypes.set(abstractType, found);
+  }
+
+  return subtypes;
+}
+
 export function defaultEntityIdMapper(node: { id?: any }) {
   return node.id;
 }
@@ -0,0 +1,126 @@
+/**
+ * Counters (and timings, in milliseconds) describing the cache's work.
+ */
+export interface CacheMetrics {
+  /** Reads performed. */
+  reads: number;
+  /** Reads that were satisfied by a snapshot's read cache. */
+  readCacheHits: number;
+  /** Time spent overlaying parameterized values onto read results. */
+  overlayTime: number;
+  /** Time spent determining the completeness (and node ids) of results. */
+  visitSelectionTime: number;
+  /** Payloads merged into snapshots. */
+  payloadsMerged: number;
+  /** Time spent merging payloads into snapshots. */
+  mergePayloadTime: number;
+  /** Nodes whose values were edited (including removed nodes). */
+  nodesEdited: number;
+  /** Nodes rebuilt to point to new versions of the nodes they reference. */
+  nodesRebuilt: number;
+  /** Nodes removed because they were no longer referenced. */
+  nodesOrphaned: number;
+  /** Times observers were asked to consider changes. */
+  observerChecks: number;
+  /** Times observers' callbacks were triggered. */
+  observerNotifications: number;
+  /** New versions of the cache committed. */
+  commits: number;
+  /** The number of nodes in the (optimistic) graph. */
+  graphSize: number;
+}
+
+export type MetricName
+  = 'reads'
+  | 'readCacheHits'
+  | 'overlayTime'
+  | 'visitSelectionTime'
+  | 'payloadsMerged'
+  | 'mergePayloadTime'
+  | 'nodesEdited'
+  | 'nodesRebuilt'
+  | 'nodesOrphaned'
+  | 'observerChecks'
+  | 'observerNotifications'
+  | 'commits';
+
+export type CommitMetricsCallback = (metrics: CacheMetrics) => void;
+
+/**
+ * Accumulates metrics over the lifetime of a cache, as well as per commit.
+ */
+export class MetricsCollector {
+
+  /** Metrics accumulated over the lifetime of the cache. */
+  private _totals = _emptyMetrics();
+  /** Metrics accumulated since the last commit. */
+  private _sinceCommit = _emptyMetrics();
+
+  constructor(
+    /** Called with the metrics accumulated by each commit. */
+    private _onCommit?: CommitMetricsCallback,
+  ) {}
+
+  /**
+   * Adds `amount` to a metric.
+   */
+  increment(name: MetricName, amount = 1): void {
+    this._totals[name] += amount;
+    this._sinceCommit[name] += amount;
+  }
+
+  /**
+   * Adds the milliseconds elapsed since `start` (see `timestamp()`) to a
+   * metric.
+   */
+  addTimeSince(name: MetricName, start: number): void {
+    this.increment(name, timestamp() - start);
+  }
+
+  /**
+   * Records a commit, reporting the metrics accumulated since the last one.
+   */
+  recordCommit(graphSize: number): void {
+    this.increment('commits');
+    this._totals.graphSize = graphSize;
+    const metrics = { ...this._sinceCommit, graphSize };
+    this._sinceCommit = _emptyMetrics();
+
+    if (this._onCommit) {
+      this._onCommit(metrics);
+    }
+  }
+
+  /**
+   * Metrics accumulated over the lifetime of the cache.
+   */
+  getMetrics(graphSize: number): CacheMetrics {
+    return { ...this._totals, graphSize };
+  }
+
+}
+
+/**
+ * The current time, in (possibly fractional) milliseconds.
+ */
+export function timestamp(): number {
+  return typeof performance !== 'undefined' && performance.now ? performance.now() : Date.now();
+}
+
+function _emptyMetrics(): CacheMetrics {
+  return {
+    reads: 0,
+    readCacheHits: 0,
+    overlayTime: 0,
+    visitSelectionTime: 0,
+    payloadsMerged: 0,
+    mergePayloadTime: 0,
+    nodesEdited: 0,
+    nodesRebuilt: 0,
+    nodesOrphaned: 0,
+    observerChecks: 0,
+    observerNotifications: 0,
+    commits: 0,
+    graphSize: 0,
+  };
+}
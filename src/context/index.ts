@@ -1,2 +1,5 @@
 export { CacheContext } from './CacheContext';
+export { CacheMetrics, CommitMetricsCallback, MetricName, MetricsCollector, timestamp } from './MetricsCollector';
 export { QueryInfo } from './QueryInfo';
+export { edgeNodeId, relayConnectionPolicy } from './relayConnection';
+export { parseScalar, serializeScalar } from './scalarCodecs';
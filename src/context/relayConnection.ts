@@ -0,0 +1,100 @@
+import { JsonObject, JsonValue } from '../primitive';
+import { isObject } from '../util';
+
+import { CacheContext } from './CacheContext';
+
+/**
+ * Arguments that select a page of a connection, rather than the connection.
+ */
+const PAGINATION_ARGS = new Set(['first', 'last', 'after', 'before']);
+
+/**
+ * Builds a field policy for Relay-style connections
+ * (`{ edges: [{ cursor, node }], pageInfo }`).
+ *
+ * Each connection is keyed by its non-pagination arguments (or `keyArgs`, if
+ * provided), and pages of it are merged into a single list of edges:
+ *
+ * * Pages fetched `after` a cursor are appended.
+ * * Pages fetched `before` a cursor are prepended.
+ * * Pages fetched without either replace the connection's edges.
+ *
+ * Edges are deduplicated by the ids of their nodes (favoring the incoming
+ * edge), and `pageInfo` is merged such that it describes the combined edges.
+ */
+export function relayConnectionPolicy(keyArgs?: string[]): CacheContext.FieldPolicy {
+  return {
+    keyArgs: keyArgs || _nonPaginationArgs,
+    merge: _mergeConnections,
+  };
+}
+
+/**
+ * The entity id of an edge's node, if any.
+ */
+export function edgeNodeId(edge: JsonValue, entityIdForNode: CacheContext.EntityIdForNode): string | undefined {
+  if (!isObject(edge)) return undefined;
+  const { node } = edge;
+  return isObject(node) ? entityIdForNode(node) : undefined;
+}
+
+function _nonPaginationArgs(args: JsonObject): JsonObject {
+  const keyArgs = {};
+  for (const name of Object.keys(args)) {
+    if (PAGINATION_ARGS.has(name)) continue;
+    keyArgs[name] = args[name];
+  }
+  return keyArgs;
+}
+
+function _mergeConnections(
+  existing: JsonValue | undefined,
+  incoming: JsonValue,
+  args: JsonObject,
+  { entityIdForNode }: CacheContext.FieldMergeContext,
+): JsonValue {
+  if (!_isConnection(existing) || !_isConnection(incoming)) return incoming;
+  const { after, before } = args;
+  if ((after === undefined || after === null) && (before === undefined || before === null)) return incoming;
+
+  const incomingEdges = incoming.edges as JsonValue[];
+  const incomingIds = new Set(incomingEdges.map(edge => edgeNodeId(edge, entityIdForNode)));
+  const existingEdges = (existing.edges as JsonValue[]).filter((edge) => {
+    const nodeId = edgeNodeId(edge, entityIdForNode);
+    return nodeId === undefined || !incomingIds.has(nodeId);
+  });
+
+  const appending = after !== undefined && after !== null;
+  const merged = {
+    ...existing,
+    ...incoming,
+    edges: appending ? [...existingEdges, ...incomingEdges] : [...incomingEdges, ...existingEdges],
+  } as JsonObject;
+
+  const pageInfo = appending
+    ? _mergePageInfo(existing.pageInfo, incoming.pageInfo, ['endCursor', 'hasNextPage'])
+    : _mergePageInfo(existing.pageInfo, incoming.pageInfo, ['startCursor', 'hasPreviousPage']);
+  if (pageInfo !== undefined) {
+    merged.pageInfo = pageInfo;
+  }
+
+  return merged;
+}
+
+function _isConnection(value: JsonValue | undefined): value is JsonObject {
+  return isObject(value) && Array.isArray(value.edges);
+}
+
+/**
+ * Takes the fields that describe the incoming page's end of the connection
+ * from its `pageInfo`, and the rest from the existing `pageInfo`.
+ */
+function _mergePageInfo(existing: JsonValue | undefined, incoming: JsonValue | undefined, fields: string[]): JsonValue | undefined {
+  if (!isObject(existing) || !isObject(incoming)) return incoming !== undefined ? incoming : existing;
+
+  const merged = { ...existing } as JsonObject;
+  for (const field of fields) {
+    if (field in incoming) merged[field] = incoming[field];
+  }
+  return merged;
+}
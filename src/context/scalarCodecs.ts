@@ -0,0 +1,28 @@
+import { JsonValue } from '../primitive';
+import { isScalar } from '../util';
+
+import { CacheContext } from './CacheContext';
+
+/**
+ * Serializes a value written for a custom scalar field (or list of them) via
+ * its codec.
+ *
+ * Scalar values (e.g. strings received from a server) are considered to be
+ * serialized already, and are kept as-is; all other values (including plain
+ * objects) are serialized.
+ */
+export function serializeScalar(codec: CacheContext.ScalarCodec, value: any): JsonValue {
+  if (Array.isArray(value)) return value.map(item => serializeScalar(codec, item));
+  if (isScalar(value)) return value as JsonValue;
+  return codec.serialize(value);
+}
+
+/**
+ * Parses the stored value of a custom scalar field (or list of them) via its
+ * codec.
+ */
+export function parseScalar(codec: CacheContext.ScalarCodec, value: JsonValue): any {
+  if (Array.isArray(value)) return value.map(item => parseScalar(codec, item));
+  if (value === null || value === undefined) return value;
+  return codec.parse(value);
+}
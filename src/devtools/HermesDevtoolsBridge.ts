@@ -0,0 +1,119 @@
+import { Cache } from '../Cache';
+import { queryCacheKey } from '../context/CacheContext';
+import { serializeNode } from '../operations/extract';
+import { NodeId } from '../schema';
+import { getOperationOrDie } from '../util';
+
+import {
+  CommitEventPayload,
+  DevtoolsMessage,
+  DevtoolsRequest,
+  MessageSource,
+  ObserverDescription,
+} from './protocol';
+import { DevtoolsTransport } from './transport';
+
+/**
+ * Exposes a cache to devtools, via the protocol described in `./protocol`.
+ */
+export class HermesDevtoolsBridge {
+
+  /** Unregisters us from the transport. */
+  private _stopListening: () => void;
+  /** Unregisters us from the cache's changes, if streaming commits. */
+  private _stopStreaming: (() => void) | undefined;
+
+  constructor(
+    /** The cache being inspected. */
+    private readonly _cache: Cache,
+    /** The channel to the devtools client. */
+    private readonly _transport: DevtoolsTransport,
+  ) {
+    this._stopListening = this._transport.onMessage(message => this._handleMessage(message));
+  }
+
+  /**
+   * Stops responding to requests, and streaming events.
+   */
+  detach(): void {
+    this._stopListening();
+    this._unsubscribeCommits();
+  }
+
+  // Internal
+
+  /**
+   * Reply to requests from the client (anything else is ignored).
+   */
+  private _handleMessage(message: DevtoolsMessage): void {
+    if (message.type !== 'request') return;
+
+    let result;
+    try {
+      result = this._handleRequest(message);
+    } catch (error) {
+      this._transport.postMessage({ source: MessageSource, type: 'response', id: message.id, error: error.message });
+      return;
+    }
+
+    this._transport.postMessage({ source: MessageSource, type: 'response', id: message.id, result });
+  }
+
+  private _handleRequest({ method, params }: DevtoolsRequest): any {
+    const { snapshot, observers } = this._cache.inspect();
+
+    switch (method) {
+    case 'listNodeIds':
+      return snapshot.optimistic.allNodeIds();
+    case 'getNode': {
+      const nodeId = params && params.id;
+      if (typeof nodeId !== 'string') {
+        throw new Error(`getNode requires a string id`);
+      }
+      const nodeSnapshot = snapshot.optimistic.getNodeSnapshot(nodeId);
+      return nodeSnapshot ? serializeNode(nodeSnapshot) : null;
+    }
+    case 'listObservers':
+      return observers.map((observer): ObserverDescription => {
+        const query = observer.getQuery();
+        const { complete, nodeIds } = observer.getResult();
+        const operation = getOperationOrDie(query.document);
+        return {
+          operationName: operation.name && operation.name.value,
+          operationSource: queryCacheKey(query.document),
+          rootId: query.rootId,
+          variables: query.variables,
+          complete,
+          nodeIds: Array.from(nodeIds),
+        };
+      });
+    case 'listOptimisticUpdates':
+      return snapshot.optimisticQueue.changeIds();
+    case 'subscribeCommits':
+      this._subscribeCommits();
+      return null;
+    case 'unsubscribeCommits':
+      this._unsubscribeCommits();
+      return null;
+    default:
+      throw new Error(`Unknown method: ${method}`);
+    }
+  }
+
+  private _subscribeCommits(): void {
+    if (this._stopStreaming) return;
+    this._stopStreaming = this._cache.onChange(editedNodeIds => this._emitCommit(editedNodeIds));
+  }
+
+  private _unsubscribeCommits(): void {
+    if (!this._stopStreaming) return;
+    this._stopStreaming();
+    this._stopStreaming = undefined;
+  }
+
+  private _emitCommit(editedNodeIds: Set<NodeId>): void {
+    const payload: CommitEventPayload = { editedNodeIds: Array.from(editedNodeIds) };
+    this._transport.postMessage({ source: MessageSource, type: 'event', event: 'commit', payload });
+  }
+
+}
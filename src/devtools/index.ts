@@ -0,0 +1,3 @@
+export * from './protocol';
+export { HermesDevtoolsBridge } from './HermesDevtoolsBridge';
+export { DevtoolsTransport, inProcessTransportPair, MessageTarget, postMessageTransport } from './transport';
@@ -0,0 +1,117 @@
+/**
+ * @fileoverview
+ *
+ * The message protocol spoken between a `HermesDevtoolsBridge` (attached to a
+ * cache) and a devtools client.
+ *
+ * All messages are JSON-safe objects tagged with
+ * `source: 'apollo-cache-hermes'`, so that they can share a channel (e.g.
+ * `window.postMessage`) with others.
+ *
+ * The client sends requests, each with a client-chosen `id`:
+ *
+ *   { source, type: 'request', id: 1, method: 'getNode', params: { id } }
+ *
+ * And the bridge replies with a response carrying the same `id`, and either a
+ * `result` or an `error` (message):
+ *
+ *   { source, type: 'response', id: 1, result: { type: 'entity', node: … } }
+ *
+ * Supported methods:
+ *
+ *   * `listNodeIds`: `NodeId[]` of every node in the (optimistic) cache.
+ *   * `getNode` (`{ id }`): the `SerializedNode` (value, inbound and outbound
+ *     references) for a node, or null if it doesn't exist.
+ *   * `listObservers`: `ObserverDescription[]` for every active observer.
+ *   * `listOptimisticUpdates`: `ChangeId[]` of pending optimistic updates,
+ *     oldest first.
+ *   * `subscribeCommits` / `unsubscribeCommits`: starts (or stops) streaming
+ *     commit events.
+ *
+ * While subscribed, the bridge emits an event for every change to the cache:
+ *
+ *   { source, type: 'event', event: 'commit', payload: { editedNodeIds: […] } }
+ */
+
+import { JsonObject } from '../primitive';
+import { NodeId } from '../schema';
+
+/** Identifies messages that belong to this protocol. */
+export const MessageSource = 'apollo-cache-hermes';
+
+export type DevtoolsMethod
+  = 'listNodeIds'
+  | 'getNode'
+  | 'listObservers'
+  | 'listOptimisticUpdates'
+  | 'subscribeCommits'
+  | 'unsubscribeCommits';
+
+/**
+ * A request from the client to the bridge.
+ */
+export interface DevtoolsRequest {
+  source: typeof MessageSource;
+  type: 'request';
+  /** Chosen by the client; echoed back in the response. */
+  id: number;
+  method: DevtoolsMethod;
+  params?: JsonObject;
+}
+
+/**
+ * The bridge's reply to a request.
+ */
+export interface DevtoolsResponse {
+  source: typeof MessageSource;
+  type: 'response';
+  /** The id of the request being replied to. */
+  id: number;
+  result?: any;
+  /** The message of any error that occurred while handling the request. */
+  error?: string;
+}
+
+/**
+ * An unsolicited message from the bridge.
+ */
+export interface DevtoolsEvent {
+  source: typeof MessageSource;
+  type: 'event';
+  event: 'commit';
+  payload: CommitEventPayload;
+}
+
+export type DevtoolsMessage = DevtoolsRequest | DevtoolsResponse | DevtoolsEvent;
+
+/**
+ * Describes a change to the cache.
+ */
+export interface CommitEventPayload {
+  /** The ids of every node added, removed or edited. */
+  editedNodeIds: NodeId[];
+}
+
+/**
+ * Describes an active query observer.
+ */
+export interface ObserverDescription {
+  /** The name of the observed operation, if any. */
+  operationName?: string;
+  /** The source of the observed operation. */
+  operationSource: string;
+  /** The id of the node the query begins at. */
+  rootId: NodeId;
+  variables?: JsonObject;
+  /** Whether the most recent result was complete. */
+  complete: boolean;
+  /** The ids of nodes selected by the most recent result. */
+  nodeIds: NodeId[];
+}
+
+/**
+ * Whether a value is a message belonging to this protocol.
+ */
+export function isDevtoolsMessage(message: any): message is DevtoolsMessage {
+  return !!message && typeof message === 'object' && message.source === MessageSource;
+}
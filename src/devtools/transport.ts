@@ -0,0 +1,85 @@
+import { DevtoolsMessage, isDevtoolsMessage } from './protocol';
+
+/**
+ * A bidirectional channel for devtools messages.
+ */
+export interface DevtoolsTransport {
+  /** Sends a message to the other end of the channel. */
+  postMessage(message: DevtoolsMessage): void;
+  /**
+   * Registers a listener for messages from the other end of the channel.
+   *
+   * Returns a function that unregisters the listener.
+   */
+  onMessage(listener: (message: DevtoolsMessage) => void): () => void;
+}
+
+/**
+ * Anything that looks like a `MessagePort` or `Window`.
+ */
+export interface MessageTarget {
+  postMessage(message: any, targetOrigin?: string): void;
+  addEventListener(type: 'message', listener: (event: { data: any }) => void): void;
+  removeEventListener(type: 'message', listener: (event: { data: any }) => void): void;
+}
+
+/**
+ * Speaks the devtools protocol over a `postMessage`-style target (e.g. a
+ * `MessagePort`, or `window` when talking to a browser extension's content
+ * script).
+ *
+ * Messages that don't belong to the protocol are ignored.
+ */
+export function postMessageTransport(target: MessageTarget, targetOrigin?: string): DevtoolsTransport {
+  return {
+    postMessage(message: DevtoolsMessage) {
+      if (targetOrigin === undefined) {
+        target.postMessage(message);
+      } else {
+        target.postMessage(message, targetOrigin);
+      }
+    },
+    onMessage(listener: (message: DevtoolsMessage) => void) {
+      const handler = (event: { data: any }) => {
+        if (isDevtoolsMessage(event.data)) {
+          listener(event.data);
+        }
+      };
+      target.addEventListener('message', handler);
+      return () => target.removeEventListener('message', handler);
+    },
+  };
+}
+
+/**
+ * Creates a pair of connected transports that deliver messages synchronously,
+ * within the current process (i.e. for tests).
+ *
+ * Messages are round-tripped through JSON, to catch anything that would not
+ * survive a real channel.
+ */
+export function inProcessTransportPair(): [DevtoolsTransport, DevtoolsTransport] {
+  const listeners: ((message: DevtoolsMessage) => void)[][] = [[], []];
+
+  function transportFor(side: number): DevtoolsTransport {
+    const otherSide = 1 - side;
+    return {
+      postMessage(message: DevtoolsMessage) {
+        const serialized = JSON.stringify(message);
+        for (const listener of [...listeners[otherSide]]) {
+          listener(JSON.parse(serialized));
+        }
+      },
+      onMessage(listener: (message: DevtoolsMessage) => void) {
+        listeners[side].push(listener);
+        return () => {
+          const index = listeners[side].indexOf(listener);
+          if (index < 0) return;
+          listeners[side].splice(index, 1);
+        };
+      },
+    };
+  }
+
+  return [transportFor(0), transportFor(1)];
+}
@@ -1,2 +1,7 @@
 export { ApolloCache } from './apollo';
 export { Cache } from './Cache';
+export { CacheMetrics, relayConnectionPolicy } from './context';
+export { HermesDevtoolsBridge, inProcessTransportPair, postMessageTransport } from './devtools';
+export { Observable, Observer, Subscription } from './Observable';
+export { FieldChange, MissingValue, NodeChange, ReferenceChanges, SnapshotDiff } from './operations';
+export { CachePersistor, MemoryStorage, StorageAdapter } from './persistence';
@@ -30,11 +30,27 @@ export class QueryObserver {
     this._update(snapshot);
   }
 
+  /**
+   * The query being observed.
+   */
+  getQuery(): Query {
+    return this._query;
+  }
+
+  /**
+   * The most recent result delivered to the callback (or skipped, because it
+   * was unchanged).
+   */
+  getResult(): QueryResultWithNodeIds {
+    return this._result;
+  }
+
   /**
    * We expect the cache to tell us whenever there is a new snapshot, and which
    * nodes have changed.
    */
   consumeChanges(snapshot: GraphSnapshot, changedNodeIds: Set<NodeId>): void {
+    if (this._context.metrics) this._context.metrics.increment('observerChecks');
     if (!this._hasUpdate(changedNodeIds)) return;
     this._update(snapshot);
   }
@@ -42,21 +58,28 @@ export class QueryObserver {
   /**
    * Whether there are any changed nodes that overlap with the ones we're
    * observing.
+   *
+   * The query's root is always considered observed, so that we pick up on it
+   * being written for the first time.  Similarly, parameterized values are
+   * observed even when missing (see `_walkAndOverlayDynamicValues`).
    */
-  private _hasUpdate(changedNodeIds: Set<NodeId>): boolean { // eslint-disable-line class-methods-use-this
-    return true;
-    // TODO: Bring back per-node updates once it's stable!
-    // for (const nodeId of changedNodeIds) {
-    //   if (this._result.nodeIds.has(nodeId)) return true;
-    // }
-    // return false;
+  private _hasUpdate(changedNodeIds: Set<NodeId>): boolean {
+    if (changedNodeIds.has(this._query.rootId)) return true;
+    for (const nodeId of changedNodeIds) {
+      if (this._result.nodeIds.has(nodeId)) return true;
+    }
+    return false;
   }
 
   /**
-   * Re-query and trigger the callback.
+   * Re-query and trigger the callback (unless the result is unchanged).
    */
   private _update(snapshot: GraphSnapshot): void {
+    const lastResult = this._result;
     this._result = read(this._context, this._query, snapshot, true);
+    if (lastResult && lastResult.result === this._result.result && lastResult.complete === this._result.complete) return;
+
+    if (this._context.metrics) this._context.metrics.increment('observerNotifications');
     this._callback(this._result);
   }
 
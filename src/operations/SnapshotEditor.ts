@@ -1,16 +1,20 @@
-import { CacheContext } from '../context';
+import lodashIsEqual = require('lodash.isequal');
+
+import { CacheContext, serializeScalar, timestamp } from '../context';
 import { DynamicField, DynamicFieldWithArgs, DynamicFieldMap, isDynamicFieldWithArgs } from '../DynamicField';
 import { GraphSnapshot } from '../GraphSnapshot';
 import { EntitySnapshot, NodeSnapshot, ParameterizedValueSnapshot, cloneNodeSnapshot } from '../nodes';
-import { JsonObject, PathPart } from '../primitive';
-import { NodeId, ParsedQuery, Query } from '../schema';
+import { JsonObject, JsonValue, PathPart } from '../primitive';
+import { NodeId, ParsedQuery, Query, StaticNodeTypeName } from '../schema';
 import {
   addNodeReference,
   addToSet,
+  canonicalJson,
   hasNodeReference,
   isObject,
   isScalar,
   lazyImmutableDeepSet,
+  reachableNodeIds,
   removeNodeReference,
   walkPayload,
 } from '../util';
@@ -90,6 +94,8 @@ export class SnapshotEditor {
    * the node identified by `rootId`.
    */
   mergePayload(query: Query, payload: JsonObject): void {
+    const { metrics } = this._context;
+    const start = metrics && timestamp();
     const parsed = this._context.parseQuery(query);
 
     // First, we walk the payload and apply all _scalar_ edits, while collecting
@@ -116,6 +122,79 @@ export class SnapshotEditor {
 
     // The query should now be considered complete for future reads.
     this._writtenQueries.add(parsed);
+
+    if (metrics) {
+      metrics.increment('payloadsMerged');
+      metrics.addTimeSince('mergePayloadTime', start!);
+    }
+  }
+
+  /**
+   * Removes the node identified by `nodeId` from the snapshot, along with any
+   * parameterized values it contains, and any nodes orphaned by its removal.
+   *
+   * All references to the evicted node are replaced with null.
+   */
+  evict(nodeId: NodeId): void {
+    const snapshot = this.getNodeSnapshot(nodeId);
+    if (!snapshot) return;
+
+    // References to the node are cleared just like a payload that nulls them
+    // out would; so that containers are rebuilt correctly.
+    const referenceEdits: ReferenceEdit[] = [];
+    if (snapshot.inbound) {
+      for (const { id, path } of snapshot.inbound) {
+        if (path) {
+          referenceEdits.push({ containerId: id, path, prevNodeId: nodeId, nextNodeId: undefined });
+        } else {
+          // Path-less references are purely bookkeeping (e.g. a parameterized
+          // value's container), so there is no value to clear.
+          removeNodeReference('outbound', this._ensureNewSnapshot(id), nodeId);
+        }
+      }
+    }
+
+    const orphanedNodeIds = this._mergeReferenceEdits(referenceEdits);
+    // The evicted node may still be referenced by path-less references (or not
+    // at all, if it is a root); regardless, it must go.
+    orphanedNodeIds.add(nodeId);
+
+    this._rebuildInboundReferences();
+    this._removeOrphanedNodes(orphanedNodeIds);
+  }
+
+  /**
+   * Removes every node that is not transitively reachable from `rootIds`,
+   * returning the ids of the removed nodes.
+   *
+   * Unlike the orphan collection performed when merging payloads, this also
+   * reclaims unreachable cycles of nodes.
+   */
+  removeUnreachableNodes(rootIds: Iterable<NodeId>): Set<NodeId> {
+    // Mark…
+    const reachable = reachableNodeIds(rootIds, id => this.getNodeSnapshot(id));
+
+    // …and sweep.
+    const removedNodeIds = new Set<NodeId>();
+    const candidateIds = [...this._parent.allNodeIds(), ...Object.keys(this._newNodes)];
+    for (const nodeId of candidateIds) {
+      if (reachable.has(nodeId) || removedNodeIds.has(nodeId)) continue;
+      const node = this.getNodeSnapshot(nodeId);
+      if (!node) continue;
+
+      this._newNodes[nodeId] = undefined;
+      this._editedNodeIds.add(nodeId);
+      removedNodeIds.add(nodeId);
+
+      // Unreachable nodes may still point into the reachable graph.
+      if (!node.outbound) continue;
+      for (const { id, path } of node.outbound) {
+        if (!reachable.has(id)) continue;
+        removeNodeReference('inbound', this._ensureNewSnapshot(id), nodeId, path);
+      }
+    }
+
+    return removedNodeIds;
   }
 
   /**
@@ -130,7 +209,7 @@ export class SnapshotEditor {
    * can guarantee that all edited nodes have been built.
    */
   private _mergePayloadValues(query: ParsedQuery, fullPayload: JsonObject): ReferenceEdit[] {
-    const { entityIdForNode } = this._context;
+    const { entityIdForNode, matchesTypeCondition } = this._context;
 
     const queue: MergeQueueItem[] = [{
       containerId: query.rootId,
@@ -156,12 +235,28 @@ export class SnapshotEditor {
       // Similarly, we need to be careful to break cycles _within_ a node.
       const visitedPayloadValues = new Set<any>();
 
-      walkPayload(containerPayload, container, fields, visitRoot, (path, payloadValue, nodeValue, dynamicFields) => {
+      walkPayload(containerPayload, container, fields, visitRoot, (path, payloadValue, nodeValue, dynamicFields, parentPayload) => {
+        // Custom scalars are stored in their serialized form, and compared that
+        // way; their values are leaves, regardless of their shape.
+        const codec = this._scalarCodecAt(containerId, path, parentPayload);
+        if (codec) {
+          payloadValue = serializeScalar(codec, payloadValue);
+          if (!isDynamicFieldWithArgs(dynamicFields)) {
+            if (!lodashIsEqual(payloadValue, nodeValue)) {
+              this._setValue(containerId, path, payloadValue);
+            }
+            return true;
+          }
+        }
+
         const payloadIsObject = isObject(payloadValue);
         const nodeIsObject = isObject(nodeValue);
         let nextNodeId = payloadIsObject ? entityIdForNode(payloadValue as JsonObject) : undefined;
         const prevNodeId = nodeIsObject ? entityIdForNode(nodeValue as JsonObject) : undefined;
         const isReference = nextNodeId || prevNodeId;
+        if (payloadIsObject && nextNodeId === undefined) {
+          this._assertKeyFieldsSelected(payloadValue as JsonObject, containerId, path);
+        }
         // TODO: Rather than failing on cycles in payload values, we should
         // follow the query's selection set to know how deep to walk.
         if (payloadIsObject && !isReference) {
@@ -185,7 +280,16 @@ export class SnapshotEditor {
         }
 
         if (isDynamicFieldWithArgs(dynamicFields)) {
-          const fieldId = this._ensureParameterizedValueSnapshot(containerId, path, dynamicFields, query.variables!);
+          const typeName = this._typeNameOfContainer(containerId, path, parentPayload);
+          const fieldId = this._ensureParameterizedValueSnapshot(containerId, path, dynamicFields, query.variables!, typeName);
+          // The field's policy may combine the incoming value with the stored
+          // one; in which case we write the combined value in its place.
+          const fieldName = path[path.length - 1] as string;
+          const policy = this._context.fieldPolicy(typeName, fieldName);
+          if (policy && policy.merge) {
+            const existing = this.getDataNodeOfNodeSnapshot(fieldId);
+            payloadValue = policy.merge(existing, payloadValue, dynamicFields.args, this._context);
+          }
           // We walk the values of the parameterized field like any other
           // entity.
           //
@@ -227,7 +331,9 @@ export class SnapshotEditor {
           //
           // So, walk if we have new values, otherwise we're done for this
           // subgraph.
-          if (nextNodeId) {
+          // Entities taken from the cache itself (e.g. by a field's merge
+          // policy) have nothing new to contribute.
+          if (nextNodeId && !this._isStoredNode(nextNodeId, payloadValue)) {
             const nextFields = dynamicFields instanceof DynamicField ? dynamicFields.children : dynamicFields;
             queue.push({ containerId: nextNodeId, containerPayload: payloadValue as JsonObject, visitRoot: false, fields: nextFields });
           }
@@ -283,7 +389,7 @@ export class SnapshotEditor {
         }
 
         return false;
-      });
+      }, matchesTypeCondition);
     }
 
     return referenceEdits;
@@ -359,6 +465,7 @@ export class SnapshotEditor {
 
       this._newNodes[nodeId] = undefined;
       this._editedNodeIds.add(nodeId);
+      if (this._context.metrics) this._context.metrics.increment('nodesOrphaned');
 
       if (!node.outbound) continue;
       for (const { id, path } of node.outbound) {
@@ -374,7 +481,12 @@ export class SnapshotEditor {
    * Commits the transaction, returning a new immutable snapshot.
    */
   commit(): EditedSnapshot {
-    const { entityTransformer } = this._context;
+    const { entityTransformer, metrics } = this._context;
+    if (metrics) {
+      metrics.increment('nodesEdited', this._editedNodeIds.size);
+      metrics.increment('nodesRebuilt', this._rebuiltNodeIds.size);
+    }
+
     const snapshots = { ...this._parent._values };
     for (const id in this._newNodes) {
       const newSnapshot = this._newNodes[id];
@@ -449,11 +561,77 @@ export class SnapshotEditor {
     return newSnapshot;
   }
 
+  /**
+   * Whether `value` is the value stored for node `id` (either by the parent, or
+   * within this transaction).
+   */
+  private _isStoredNode(id: NodeId, value: JsonValue): boolean {
+    const parent = this._parent.getNodeSnapshot(id);
+    return (!!parent && parent.node === value) || this.getDataNodeOfNodeSnapshot(id) === value;
+  }
+
+  /**
+   * The GraphQL type of the value containing the field at `path` within the
+   * node `containerId`, if known.
+   */
+  private _typeNameOfContainer(containerId: NodeId, path: PathPart[], parentPayload: JsonValue | undefined): string | undefined {
+    if (isObject(parentPayload)) {
+      const { __typename } = parentPayload;
+      if (typeof __typename === 'string') return __typename;
+    }
+    if (path.length > 1) return undefined;
+
+    // Fields of the node itself.
+    const container = this.getDataNodeOfNodeSnapshot(containerId);
+    if (isObject(container)) {
+      const { __typename } = container;
+      if (typeof __typename === 'string') return __typename;
+    }
+    return StaticNodeTypeName[containerId];
+  }
+
+  /**
+   * Ensures that a written value selects all of its type's key fields; as it
+   * would otherwise be written as a value, rather than as a reference.
+   */
+  private _assertKeyFieldsSelected(value: JsonObject, containerId: NodeId, path: PathPart[]): void {
+    const missing = this._context.missingKeyFields(value);
+    if (!missing.length) return;
+
+    const metadata = `at ${JSON.stringify(path)} of node ${containerId}`;
+    throw new Error(`Key fields ${missing.join(', ')} of ${value.__typename} were not selected ${metadata}`);
+  }
+
+  /**
+   * The codec for the field at `path` within the node `containerId`, if its
+   * values are a custom scalar.
+   */
+  private _scalarCodecAt(
+    containerId: NodeId,
+    path: PathPart[],
+    parentPayload: JsonValue | undefined,
+  ): CacheContext.ScalarCodec | undefined {
+    if (!this._context.hasScalarFields) return undefined;
+    const fieldName = path[path.length - 1];
+    if (typeof fieldName !== 'string') return undefined;
+    return this._context.scalarCodec(this._typeNameOfContainer(containerId, path, parentPayload), fieldName);
+  }
+
   /**
    * Ensures that there is a ParameterizedValueSnapshot for the given field.
+   *
+   * Values are identified by the field's key arguments, per its policy (if
+   * any) on `typeName`.
    */
-  _ensureParameterizedValueSnapshot(containerId: NodeId, path: PathPart[], field: DynamicFieldWithArgs, variables: JsonObject) {
-    const fieldId = nodeIdForParameterizedValue(containerId, path, field.args);
+  _ensureParameterizedValueSnapshot(
+    containerId: NodeId,
+    path: PathPart[],
+    field: DynamicFieldWithArgs,
+    variables: JsonObject,
+    typeName?: string,
+  ) {
+    const fieldName = path[path.length - 1] as string;
+    const fieldId = nodeIdForParameterizedValue(containerId, path, this._context.keyArgs(typeName, fieldName, field.args));
 
     // We're careful to not edit the container unless we absolutely have to.
     // (There may be no changes for this parameterized value).
@@ -475,9 +653,12 @@ export class SnapshotEditor {
 
 /**
  * Generate a stable id for a parameterized value.
+ *
+ * Arguments are serialized canonically, so that the order they (or the fields
+ * of input objects within them) are given in doesn't matter.
  */
 export function nodeIdForParameterizedValue(containerId: NodeId, path: PathPart[], args?: JsonObject) {
-  return `${containerId}❖${JSON.stringify(path)}❖${JSON.stringify(args)}`;
+  return `${containerId}❖${JSON.stringify(path)}❖${canonicalJson(args)}`;
 }
 
 function pathBeginsWith(target: PathPart[], prefix: PathPart[]) {
@@ -0,0 +1,24 @@
+import { CacheContext } from '../context';
+import { GraphSnapshot } from '../GraphSnapshot';
+import { NodeId } from '../schema';
+
+import { EditedSnapshot, SnapshotEditor } from './SnapshotEditor';
+
+/**
+ * A snapshot that has had its unreachable nodes removed.
+ */
+export interface CollectedSnapshot extends EditedSnapshot {
+  removedNodeIds: Set<NodeId>;
+}
+
+/**
+ * Removes all nodes that are not reachable from `rootIds` from an existing
+ * graph snapshot, generating a new one.
+ */
+export function collectGarbage(context: CacheContext, snapshot: GraphSnapshot, rootIds: Iterable<NodeId>): CollectedSnapshot {
+  const editor = new SnapshotEditor(context, snapshot);
+  const removedNodeIds = editor.removeUnreachableNodes(rootIds);
+  const { snapshot: newSnapshot, editedNodeIds, writtenQueries } = editor.commit();
+
+  return { snapshot: newSnapshot, editedNodeIds, writtenQueries, removedNodeIds };
+}
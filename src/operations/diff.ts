@@ -0,0 +1,190 @@
+import { GraphSnapshot } from '../GraphSnapshot';
+import { NodeReference, NodeSnapshot } from '../nodes';
+import { JsonValue, PathPart } from '../primitive';
+import { NodeId } from '../schema';
+import { isObject } from '../util';
+
+/**
+ * A change to a (non-reference) value within a node.
+ */
+export interface FieldChange {
+  /** The path to the value, relative to the node. */
+  path: PathPart[];
+  /** The previous value, if any. */
+  oldValue?: JsonValue;
+  /** The new value, if any. */
+  newValue?: JsonValue;
+}
+
+/**
+ * References added to or removed from a node.
+ */
+export interface ReferenceChanges {
+  added: NodeReference[];
+  removed: NodeReference[];
+}
+
+/**
+ * Everything that changed about a node present in both snapshots.
+ */
+export interface NodeChange {
+  id: NodeId;
+  /** Changed values within the node (references are excluded). */
+  fields: FieldChange[];
+  /** Changes to the nodes that reference this one. */
+  inbound: ReferenceChanges;
+  /** Changes to the nodes that this one references. */
+  outbound: ReferenceChanges;
+}
+
+/**
+ * A structured description of the differences between two graph snapshots.
+ */
+export interface SnapshotDiff {
+  /** Nodes only present in the newer snapshot. */
+  added: NodeId[];
+  /** Nodes only present in the older snapshot. */
+  removed: NodeId[];
+  /** Nodes present in both snapshots, whose values or references differ. */
+  changed: NodeChange[];
+}
+
+/**
+ * Determines what changed between two versions of the graph.
+ *
+ * Values that are references to other nodes are not compared field by field;
+ * changes to them are reported as reference changes (and changes to the
+ * referenced nodes are reported under their own ids).
+ */
+export function diffSnapshots(oldSnapshot: GraphSnapshot, newSnapshot: GraphSnapshot): SnapshotDiff {
+  const diff: SnapshotDiff = { added: [], removed: [], changed: [] };
+
+  for (const nodeId of oldSnapshot.allNodeIds()) {
+    if (!newSnapshot.has(nodeId)) {
+      diff.removed.push(nodeId);
+    }
+  }
+
+  for (const nodeId of newSnapshot.allNodeIds()) {
+    const oldNode = oldSnapshot.getNodeSnapshot(nodeId);
+    const newNode = newSnapshot.getNodeSnapshot(nodeId)!;
+    if (!oldNode) {
+      diff.added.push(nodeId);
+      continue;
+    }
+    // Snapshots share unchanged nodes.
+    if (oldNode === newNode) continue;
+
+    const change = _diffNodes(nodeId, oldNode, newNode);
+    if (change) {
+      diff.changed.push(change);
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Returns the ids of all nodes that were added, removed or changed between two
+ * versions of the graph.
+ *
+ * Cheaper than `diffSnapshots`, but may include nodes that were rebuilt without
+ * any effective changes.
+ */
+export function changedNodeIds(oldSnapshot: GraphSnapshot, newSnapshot: GraphSnapshot): Set<NodeId> {
+  const nodeIds = new Set<NodeId>();
+  for (const nodeId of oldSnapshot.allNodeIds()) {
+    if (oldSnapshot.getNodeSnapshot(nodeId) !== newSnapshot.getNodeSnapshot(nodeId)) {
+      nodeIds.add(nodeId);
+    }
+  }
+  for (const nodeId of newSnapshot.allNodeIds()) {
+    if (!oldSnapshot.has(nodeId)) {
+      nodeIds.add(nodeId);
+    }
+  }
+
+  return nodeIds;
+}
+
+/**
+ * Compares two versions of a node, returning undefined if they are equivalent.
+ */
+function _diffNodes(id: NodeId, oldNode: NodeSnapshot, newNode: NodeSnapshot): NodeChange | undefined {
+  const referencePaths = new Set<string>();
+  for (const { path } of [...(oldNode.outbound || []), ...(newNode.outbound || [])]) {
+    if (path) referencePaths.add(_pathKey(path));
+  }
+
+  const fields: FieldChange[] = [];
+  _diffValues(oldNode.node, newNode.node, [], referencePaths, fields);
+  const inbound = _diffReferences(oldNode.inbound, newNode.inbound);
+  const outbound = _diffReferences(oldNode.outbound, newNode.outbound);
+
+  if (!fields.length && !_hasReferenceChanges(inbound) && !_hasReferenceChanges(outbound)) return undefined;
+
+  return { id, fields, inbound, outbound };
+}
+
+/**
+ * Recursively compares two values, collecting any changes.
+ */
+function _diffValues(
+  oldValue: JsonValue | undefined,
+  newValue: JsonValue | undefined,
+  path: PathPart[],
+  referencePaths: Set<string>,
+  changes: FieldChange[],
+): void {
+  if (oldValue === newValue) return;
+  if (referencePaths.has(_pathKey(path))) return;
+
+  const bothArrays = Array.isArray(oldValue) && Array.isArray(newValue);
+  const bothObjects = isObject(oldValue) && isObject(newValue) && !Array.isArray(oldValue) && !Array.isArray(newValue);
+
+  if (bothArrays) {
+    const oldArray = oldValue as JsonValue[], newArray = newValue as JsonValue[];
+    const length = Math.max(oldArray.length, newArray.length);
+    for (let index = 0; index < length; index++) {
+      _diffValues(oldArray[index], newArray[index], [...path, index], referencePaths, changes);
+    }
+
+  } else if (bothObjects) {
+    const oldObject = oldValue as { [key: string]: JsonValue }, newObject = newValue as { [key: string]: JsonValue };
+    const keys = new Set([...Object.keys(oldObject), ...Object.keys(newObject)]);
+    for (const key of keys) {
+      _diffValues(oldObject[key], newObject[key], [...path, key], referencePaths, changes);
+    }
+
+  } else {
+    const change: FieldChange = { path };
+    if (oldValue !== undefined) change.oldValue = oldValue;
+    if (newValue !== undefined) change.newValue = newValue;
+    changes.push(change);
+  }
+}
+
+/**
+ * Determines which references were added or removed.
+ */
+function _diffReferences(oldReferences: NodeReference[] = [], newReferences: NodeReference[] = []): ReferenceChanges {
+  const oldKeys = new Set(oldReferences.map(_referenceKey));
+  const newKeys = new Set(newReferences.map(_referenceKey));
+
+  return {
+    added: newReferences.filter(reference => !oldKeys.has(_referenceKey(reference))),
+    removed: oldReferences.filter(reference => !newKeys.has(_referenceKey(reference))),
+  };
+}
+
+function _hasReferenceChanges({ added, removed }: ReferenceChanges): boolean {
+  return added.length > 0 || removed.length > 0;
+}
+
+function _referenceKey({ id, path }: NodeReference): string {
+  return JSON.stringify([id, path]);
+}
+
+function _pathKey(path: PathPart[]): string {
+  return JSON.stringify(path);
+}
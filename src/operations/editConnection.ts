@@ -0,0 +1,85 @@
+import { CacheContext, edgeNodeId } from '../context';
+import { GraphSnapshot } from '../GraphSnapshot';
+import { JsonObject, JsonValue } from '../primitive';
+import { NodeId, Query, StaticNodeId, StaticNodeTypeName } from '../schema';
+import { isObject, queryForValue } from '../util';
+
+import { nodeIdForParameterizedValue } from './SnapshotEditor';
+
+export namespace editConnection {
+
+  /**
+   * Identifies a (Relay-style) connection stored in the cache.
+   */
+  export interface Locator {
+    /** The node containing the connection's field.  By default, the root. */
+    containerId?: NodeId;
+    /** The name of the connection's field. */
+    fieldName: string;
+    /**
+     * The arguments of the connection's field (only its key arguments, per
+     * any field policy, are significant).
+     */
+    args?: JsonObject;
+  }
+
+  export type EdgesEditor = (edges: JsonValue[]) => JsonValue[];
+
+}
+
+/**
+ * Builds a write that replaces the edges of a connection with the result of
+ * `edit` (or undefined, if the connection isn't in the cache).
+ *
+ * Only connections that are fields of their container node (rather than of a
+ * value nested within it) can be located.
+ */
+export function editConnection(
+  context: CacheContext,
+  snapshot: GraphSnapshot,
+  { containerId = StaticNodeId.QueryRoot, fieldName, args = {} }: editConnection.Locator,
+  edit: editConnection.EdgesEditor,
+): { query: Query, payload: JsonObject } | undefined {
+  const keyArgs = context.keyArgs(_typeNameOf(snapshot, containerId), fieldName, args);
+  const connectionId = nodeIdForParameterizedValue(containerId, [fieldName], keyArgs);
+  const connection = snapshot.get(connectionId);
+  if (!isObject(connection) || !Array.isArray(connection.edges)) return undefined;
+
+  const payload = { edges: edit(connection.edges as JsonValue[]) };
+  return {
+    query: { rootId: connectionId, document: queryForValue(payload) },
+    payload,
+  };
+}
+
+/**
+ * Builds an editor that inserts `edge` at the start or end of the edges,
+ * replacing any edge to the same node.
+ */
+export function insertEdgeEditor(
+  context: CacheContext,
+  edge: JsonObject,
+  position: 'start' | 'end',
+): editConnection.EdgesEditor {
+  return (edges) => {
+    const nodeId = edgeNodeId(edge, context.entityIdForNode);
+    const others = nodeId === undefined ? edges : edges.filter(other => edgeNodeId(other, context.entityIdForNode) !== nodeId);
+    return position === 'start' ? [edge, ...others] : [...others, edge];
+  };
+}
+
+/**
+ * Builds an editor that removes all edges to the node `nodeId`.
+ */
+export function removeEdgeEditor(context: CacheContext, nodeId: NodeId): editConnection.EdgesEditor {
+  return edges => edges.filter(edge => edgeNodeId(edge, context.entityIdForNode) !== nodeId);
+}
+
+function _typeNameOf(snapshot: GraphSnapshot, nodeId: NodeId): string | undefined {
+  const node = snapshot.get(nodeId);
+  if (isObject(node)) {
+    const { __typename } = node;
+    if (typeof __typename === 'string') return __typename;
+  }
+  return StaticNodeTypeName[nodeId];
+}
@@ -0,0 +1,17 @@
+import { CacheContext } from '../context';
+import { GraphSnapshot } from '../GraphSnapshot';
+import { NodeId } from '../schema';
+
+import { EditedSnapshot, SnapshotEditor } from './SnapshotEditor';
+
+/**
+ * Removes a node (and any nodes orphaned by its removal) from an existing graph
+ * snapshot, generating a new one.
+ *
+ * Any references to the evicted node are replaced with null.
+ */
+export function evict(context: CacheContext, snapshot: GraphSnapshot, nodeId: NodeId): EditedSnapshot {
+  const editor = new SnapshotEditor(context, snapshot);
+  editor.evict(nodeId);
+  return editor.commit();
+}
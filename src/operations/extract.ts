@@ -0,0 +1,84 @@
+import { GraphSnapshot } from '../GraphSnapshot';
+import { EntitySnapshot, NodeReference, NodeSnapshot, ParameterizedValueSnapshot } from '../nodes';
+import { JsonValue, PathPart } from '../primitive';
+import { SerializationVersion, SerializedGraph, SerializedNode, SerializedNodeType } from '../schema';
+
+/**
+ * Serializes every node of a graph snapshot into a JSON-safe structure.
+ *
+ * Values shared between nodes (references) are not duplicated; they are
+ * re-linked from each node's outbound references by `restore`.
+ */
+export function extract(snapshot: GraphSnapshot): SerializedGraph {
+  const nodes = {};
+  for (const id of snapshot.allNodeIds()) {
+    nodes[id] = serializeNode(snapshot.getNodeSnapshot(id)!);
+  }
+
+  return { version: SerializationVersion, nodes };
+}
+
+/**
+ * Serializes a single node snapshot into a JSON-safe structure.
+ */
+export function serializeNode(snapshot: NodeSnapshot): SerializedNode {
+  let type;
+  if (snapshot instanceof EntitySnapshot) {
+    type = SerializedNodeType.Entity;
+  } else if (snapshot instanceof ParameterizedValueSnapshot) {
+    type = SerializedNodeType.ParameterizedValue;
+  } else {
+    throw new Error(`Unknown node type: ${Object.getPrototypeOf(snapshot).constructor.name}`);
+  }
+
+  const serialized: SerializedNode = { type };
+  if (snapshot.node !== undefined) {
+    serialized.node = _stripReferences(snapshot.node, snapshot.outbound);
+  }
+  if (snapshot.inbound) {
+    serialized.inbound = snapshot.inbound.map(_copyReference);
+  }
+  if (snapshot.outbound) {
+    serialized.outbound = snapshot.outbound.map(_copyReference);
+  }
+
+  return serialized;
+}
+
+/**
+ * Copies a reference, omitting any missing path (so that it stays JSON-safe).
+ */
+function _copyReference({ id, path }: NodeReference): NodeReference {
+  return path ? { id, path: [...path] } : { id };
+}
+
+/**
+ * Deeply copies a node's value, replacing every referenced node with null.
+ *
+ * References may be cyclic, so we never walk into them.
+ */
+function _stripReferences(value: JsonValue, references: NodeReference[] | undefined): JsonValue {
+  const referencePaths = new Set<string>();
+  if (references) {
+    for (const { path } of references) {
+      if (path) referencePaths.add(JSON.stringify(path));
+    }
+  }
+
+  return _copyValue(value, [], referencePaths);
+}
+
+function _copyValue(value: JsonValue, path: PathPart[], referencePaths: Set<string>): JsonValue {
+  if (referencePaths.size && referencePaths.has(JSON.stringify(path))) return null;
+  if (value === null || typeof value !== 'object') return value;
+
+  if (Array.isArray(value)) {
+    return value.map((child, index) => _copyValue(child, [...path, index], referencePaths));
+  }
+
+  const copy = {};
+  for (const key of Object.keys(value)) {
+    copy[key] = _copyValue(value[key], [...path, key], referencePaths);
+  }
+  return copy;
+}
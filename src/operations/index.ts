@@ -1,4 +1,12 @@
+export { collectGarbage } from './collectGarbage';
+export { changedNodeIds, diffSnapshots, FieldChange, NodeChange, ReferenceChanges, SnapshotDiff } from './diff';
+export { editConnection, insertEdgeEditor, removeEdgeEditor } from './editConnection';
+export { evict } from './evict';
+export { extract } from './extract';
+export { missingQuery } from './missingQuery';
 export { QueryObserver } from './QueryObserver';
-export { QueryResult, read } from './read';
+export { MissingValue, QueryResult, read } from './read';
+export { restore } from './restore';
 export { SnapshotEditor } from './SnapshotEditor';
+export { toDot } from './toDot';
 export { write } from './write';
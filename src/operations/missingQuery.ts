@@ -0,0 +1,447 @@
+import { // eslint-disable-line import/no-extraneous-dependencies, import/no-unresolved
+  DirectiveNode,
+  DocumentNode,
+  FieldNode,
+  Location,
+  NamedTypeNode,
+  OperationDefinitionNode,
+  SelectionNode,
+  SelectionSetNode,
+  ValueNode,
+} from 'graphql';
+
+import { CacheContext } from '../context';
+import { GraphSnapshot } from '../GraphSnapshot';
+import { JsonObject, PathPart } from '../primitive';
+import { EntityId, Query, StaticNodeId } from '../schema';
+import { FragmentMap, isLocalSelection, isObject, nodeFromValue, sourceForOperation } from '../util';
+
+import { read } from './read';
+
+/**
+ * Missing response keys below a value, indexed by response key.  A value of
+ * true indicates that the field is missing entirely.
+ */
+interface PathTree {
+  [Key: string]: PathTree | true;
+}
+
+/**
+ * A fragment whose selections only apply conditionally: for a type, or per
+ * its directives.
+ */
+interface ConditionalFragment {
+  typeCondition?: NamedTypeNode;
+  directives: DirectiveNode[];
+  selectionSet: SelectionSetNode;
+}
+
+/**
+ * Missing values that can be fetched via a single entity.
+ */
+interface EntityGroup {
+  id: EntityId;
+  typeName?: string;
+  /** The path (from the query's root) to the entity. */
+  prefix: PathPart[];
+  tree: PathTree;
+}
+
+/**
+ * Builds a GraphQL document that selects only the values missing from the
+ * cache for a query (or undefined, if the query is satisfied).
+ *
+ * When `context` has an `entityFetchStrategy`, missing values are selected via
+ * the deepest entity containing them (e.g. `node(id: "1") { … on User { … } }`
+ * with the `'node'` strategy).  Otherwise, or if the entity can't be fetched
+ * directly, they are selected from the query's root.  Fragments are inlined,
+ * and only the variables still in use are declared.
+ *
+ * Local-only (`@client`) fields are never selected, as no server can provide
+ * them.
+ */
+export function missingQuery(context: CacheContext, query: Query, snapshot: GraphSnapshot): DocumentNode | undefined {
+  const { result, complete, missing } = read(context, query, snapshot, undefined, true);
+  if (complete || !missing) return undefined;
+
+  const { operation, fragmentMap } = context.parseQuery(query).info;
+  // Missing values to select from the query's root (or all, if it's missing).
+  let rootTree: PathTree | true = {};
+  const entityGroups = new Map<string, EntityGroup>();
+  const keyFields = _keyFieldTree(context);
+
+  for (const { path } of missing) {
+    if (_isLocalPath([operation.selectionSet], path, fragmentMap)) continue;
+
+    const group = context.entityFetchStrategy && _deepestEntity(context, query, result, path);
+    if (!group) {
+      if (!path.length) {
+        rootTree = true;
+      } else if (rootTree !== true) {
+        _addPath(rootTree, path);
+      }
+      continue;
+    }
+
+    const groupKey = JSON.stringify([group.id, _responseKeys(group.prefix)]);
+    if (!entityGroups.has(groupKey)) {
+      entityGroups.set(groupKey, { ...group, tree: {} });
+    }
+    _addPath(entityGroups.get(groupKey)!.tree, path.slice(group.prefix.length));
+  }
+
+  const selections: SelectionNode[] = [];
+  let entityIndex = 0;
+  for (const { id, typeName, prefix, tree } of entityGroups.values()) {
+    const fetchField = context.entityFetchStrategy!(id, typeName);
+    if (!fetchField) {
+      // Fall back to fetching them via the query's root.
+      if (rootTree !== true) {
+        _addSubtree(rootTree, _responseKeys(prefix), tree);
+      }
+      continue;
+    }
+
+    const selectionSets = _selectionSetsAt([operation.selectionSet], prefix, fragmentMap);
+    const entitySelections = _selectFields(selectionSets, fragmentMap, tree, keyFields, true);
+    selections.push(_entityField(`entity${entityIndex++}`, fetchField, typeName, entitySelections));
+  }
+
+  selections.unshift(..._selectFields([operation.selectionSet], fragmentMap, rootTree, keyFields, false));
+  if (!selections.length) return undefined;
+
+  const usedVariables = new Set<string>();
+  _collectVariables(selections, usedVariables);
+  const variableDefinitions = (operation.variableDefinitions || [])
+    .filter(definition => usedVariables.has(definition.variable.name.value));
+
+  const missingOperation: OperationDefinitionNode = {
+    kind: 'OperationDefinition',
+    operation: operation.operation,
+    variableDefinitions,
+    directives: [],
+    selectionSet: _selectionSet(selections),
+  };
+  const body = sourceForOperation(missingOperation);
+
+  return {
+    kind: 'Document',
+    definitions: [missingOperation],
+    // The source of a document identifies it within the cache.
+    loc: { start: 0, end: body.length, source: { body, name: 'GraphQL request' } } as Location,
+  };
+}
+
+/**
+ * Builds a root field that fetches an entity, and selects `selections` on it.
+ */
+function _entityField(
+  alias: string,
+  { fieldName, args }: CacheContext.EntityFetchField,
+  typeName: string | undefined,
+  selections: SelectionNode[],
+): FieldNode {
+  return {
+    kind: 'Field',
+    alias: { kind: 'Name', value: alias },
+    name: { kind: 'Name', value: fieldName },
+    arguments: Object.keys(args).map(name => ({
+      kind: 'Argument' as 'Argument',
+      name: { kind: 'Name' as 'Name', value: name },
+      value: nodeFromValue(args[name]),
+    })),
+    selectionSet: _selectionSet(typeName ? [{
+      kind: 'InlineFragment',
+      typeCondition: { kind: 'NamedType', name: { kind: 'Name', value: typeName } },
+      selectionSet: _selectionSet(selections),
+    }] : selections),
+  };
+}
+
+/**
+ * Finds the deepest entity containing the value at `path` (if any).
+ */
+function _deepestEntity(
+  context: CacheContext,
+  query: Query,
+  result: JsonObject | undefined,
+  path: PathPart[],
+): { id: EntityId, typeName?: string, prefix: PathPart[] } | undefined {
+  let found: { id: EntityId, typeName?: string, prefix: PathPart[] } | undefined;
+  if (!_isStaticNodeId(query.rootId) && result !== undefined) {
+    found = { id: query.rootId, typeName: _typeName(result), prefix: [] };
+  }
+
+  let value: any = result;
+  // The final part is the missing value itself.
+  for (let i = 0; i < path.length - 1; i++) {
+    value = value !== null && typeof value === 'object' ? value[path[i]] : undefined;
+    const id = isObject(value) ? context.entityIdForNode(value) : undefined;
+    if (id !== undefined) {
+      found = { id, typeName: _typeName(value), prefix: path.slice(0, i + 1) };
+    }
+  }
+
+  return found;
+}
+
+function _typeName(value: JsonObject): string | undefined {
+  const { __typename } = value;
+  return typeof __typename === 'string' ? __typename : undefined;
+}
+
+function _isStaticNodeId(id: string): boolean {
+  return id === StaticNodeId.QueryRoot || id === StaticNodeId.MutationRoot || id === StaticNodeId.SubscriptionRoot;
+}
+
+/**
+ * The key fields to select alongside missing values, so that their containing
+ * entities can be normalized when the fetched results are written back: `id`
+ * and `__typename`, and those of any type policies.
+ */
+function _keyFieldTree(context: CacheContext): PathTree {
+  const tree: PathTree = {};
+  for (const path of ['id', '__typename', ...context.typePolicyKeyFields()]) {
+    _addSubtree(tree, path.split('.'), true);
+  }
+  return tree;
+}
+
+/**
+ * Strips array indexes from a path; selections apply to every element.
+ */
+function _responseKeys(path: PathPart[]): string[] {
+  return path.filter(part => typeof part === 'string') as string[];
+}
+
+/**
+ * Records a missing value's path within a tree.
+ */
+function _addPath(tree: PathTree, path: PathPart[]): void {
+  _addSubtree(tree, _responseKeys(path), true);
+}
+
+/**
+ * Merges `subtree` into `tree`, at `keys`.
+ */
+function _addSubtree(tree: PathTree, keys: string[], subtree: PathTree | true): void {
+  if (!keys.length) {
+    if (subtree !== true) _mergeTrees(tree, subtree);
+    return;
+  }
+
+  let node = tree;
+  for (let i = 0; i < keys.length; i++) {
+    const key = keys[i];
+    const existing = node[key];
+    // Already missing in its entirety.
+    if (existing === true) return;
+
+    if (i === keys.length - 1) {
+      if (subtree === true || !existing) {
+        node[key] = subtree;
+      } else {
+        _mergeTrees(existing, subtree);
+      }
+    } else {
+      if (!existing) node[key] = {};
+      node = node[key] as PathTree;
+    }
+  }
+}
+
+/**
+ * Combines two trees, without modifying either.
+ */
+function _unionTrees(tree: PathTree | true | undefined, other: PathTree | true | undefined): PathTree | true {
+  if (tree === true || other === true) return true;
+  if (!tree || !other) return (tree || other)!;
+
+  const union = { ...tree };
+  for (const key of Object.keys(other)) {
+    union[key] = _unionTrees(tree[key], other[key]);
+  }
+  return union;
+}
+
+function _mergeTrees(target: PathTree, source: PathTree): void {
+  for (const key of Object.keys(source)) {
+    _addSubtree(target, [key], source[key]);
+  }
+}
+
+/**
+ * Whether the value at `path` is within a local-only field.
+ */
+function _isLocalPath(selectionSets: SelectionSetNode[], path: PathPart[], fragmentMap: FragmentMap): boolean {
+  for (const key of _responseKeys(path)) {
+    const fields = _fieldsByKey(selectionSets, fragmentMap).get(key) || [];
+    if (fields.length && fields.every(isLocalSelection)) return true;
+    selectionSets = _childSelectionSets(fields);
+  }
+  return false;
+}
+
+/**
+ * Resolves the selection sets that apply to the value at `path`.
+ */
+function _selectionSetsAt(
+  selectionSets: SelectionSetNode[],
+  path: PathPart[],
+  fragmentMap: FragmentMap,
+): SelectionSetNode[] {
+  for (const key of _responseKeys(path)) {
+    const fields = _fieldsByKey(selectionSets, fragmentMap).get(key) || [];
+    selectionSets = _childSelectionSets(fields);
+  }
+  return selectionSets;
+}
+
+/**
+ * Selects the fields (of `selectionSets`) that are missing, per `tree`.
+ *
+ * Fields that are missing entirely are selected in full (with any fragments
+ * inlined).  Fields within fragments that have type conditions are selected
+ * within inline fragments of the same type.  When `nested`, `keyFields` are
+ * also selected (alongside missing fields, but never on their own).
+ */
+function _selectFields(
+  selectionSets: SelectionSetNode[],
+  fragmentMap: FragmentMap,
+  tree: PathTree | true,
+  keyFields: PathTree,
+  nested: boolean,
+): SelectionNode[] {
+  const { fieldsByKey, fragments } = _collectSelections(selectionSets, fragmentMap);
+  const selected: SelectionNode[] = [];
+  let anyMissing = false;
+  for (const [key, allFields] of fieldsByKey) {
+    const fields = allFields.filter(field => !isLocalSelection(field));
+    if (!fields.length) continue;
+
+    const branch = tree === true ? true : tree[key];
+    const keyBranch = nested ? keyFields[key] : undefined;
+    if (branch) anyMissing = true;
+    if (branch || keyBranch) {
+      selected.push(_mergeFields(fields, fragmentMap, _unionTrees(branch, keyBranch), keyFields));
+    }
+  }
+
+  for (const { typeCondition, directives, selectionSet } of fragments) {
+    const selections = _selectFields([selectionSet], fragmentMap, tree, keyFields, nested);
+    if (!selections.length) continue;
+
+    anyMissing = true;
+    selected.push({ kind: 'InlineFragment', typeCondition, directives, selectionSet: _selectionSet(selections) });
+  }
+
+  return anyMissing ? selected : [];
+}
+
+/**
+ * Combines all fields selected for the same response key.
+ */
+function _mergeFields(
+  fields: FieldNode[],
+  fragmentMap: FragmentMap,
+  tree: PathTree | true,
+  keyFields: PathTree,
+): FieldNode {
+  const selectionSets = _childSelectionSets(fields);
+  if (!selectionSets.length) return fields[0];
+
+  return {
+    ...fields[0],
+    selectionSet: _selectionSet(_selectFields(selectionSets, fragmentMap, tree, keyFields, true)),
+  };
+}
+
+function _childSelectionSets(fields: FieldNode[]): SelectionSetNode[] {
+  return fields.filter(field => field.selectionSet).map(field => field.selectionSet!);
+}
+
+/**
+ * Collects the fields of selection sets (following fragments) by their
+ * response keys, regardless of the fragments' type conditions.
+ */
+function _fieldsByKey(selectionSets: SelectionSetNode[], fragmentMap: FragmentMap): Map<string, FieldNode[]> {
+  const { fieldsByKey, fragments } = _collectSelections(selectionSets, fragmentMap);
+  for (const fragment of fragments) {
+    for (const [key, fields] of _fieldsByKey([fragment.selectionSet], fragmentMap)) {
+      fieldsByKey.set(key, [...(fieldsByKey.get(key) || []), ...fields]);
+    }
+  }
+  return fieldsByKey;
+}
+
+/**
+ * Collects the fields of selection sets by their response keys, following
+ * unconditional inline fragments.  Fragments with type conditions (or
+ * directives) are collected separately, so that they can be preserved.
+ */
+function _collectSelections(
+  selectionSets: SelectionSetNode[],
+  fragmentMap: FragmentMap,
+): { fieldsByKey: Map<string, FieldNode[]>, fragments: ConditionalFragment[] } {
+  const fieldsByKey = new Map<string, FieldNode[]>();
+  const fragments: ConditionalFragment[] = [];
+  const queue = [...selectionSets];
+  while (queue.length) {
+    for (const selection of queue.shift()!.selections) {
+      if (selection.kind === 'Field') {
+        const key = selection.alias ? selection.alias.value : selection.name.value;
+        if (!fieldsByKey.has(key)) fieldsByKey.set(key, []);
+        fieldsByKey.get(key)!.push(selection);
+      } else if (selection.kind === 'FragmentSpread') {
+        const fragment = fragmentMap[selection.name.value];
+        if (!fragment) {
+          throw new Error(`Expected fragment ${selection.name.value} to be defined`);
+        }
+        const { typeCondition, selectionSet } = fragment;
+        fragments.push({ typeCondition, directives: selection.directives || [], selectionSet });
+      } else if (selection.typeCondition || (selection.directives && selection.directives.length)) {
+        const { typeCondition, directives, selectionSet } = selection;
+        fragments.push({ typeCondition, directives: directives || [], selectionSet });
+      } else {
+        queue.push(selection.selectionSet);
+      }
+    }
+  }
+  return { fieldsByKey, fragments };
+}
+
+function _selectionSet(selections: SelectionNode[]): SelectionSetNode {
+  return { kind: 'SelectionSet', selections };
+}
+
+/**
+ * Collects the names of all variables referenced by `selections`.
+ */
+function _collectVariables(selections: SelectionNode[], names: Set<string>): void {
+  for (const selection of selections) {
+    if (selection.kind === 'FragmentSpread') continue;
+    if (selection.kind === 'Field') {
+      for (const argument of selection.arguments || []) {
+        _collectValueVariables(argument.value, names);
+      }
+    }
+    for (const directive of selection.directives || []) {
+      for (const argument of directive.arguments || []) {
+        _collectValueVariables(argument.value, names);
+      }
+    }
+    if (selection.selectionSet) {
+      _collectVariables(selection.selectionSet.selections, names);
+    }
+  }
+}
+
+function _collectValueVariables(value: ValueNode, names: Set<string>): void {
+  if (value.kind === 'Variable') {
+    names.add(value.name.value);
+  } else if (value.kind === 'ListValue') {
+    for (const item of value.values) _collectValueVariables(item, names);
+  } else if (value.kind === 'ObjectValue') {
+    for (const field of value.fields) _collectValueVariables(field.value, names);
+  }
+}
@@ -1,17 +1,34 @@
 import { JsonObject, JsonValue, PathPart } from '../primitive';
-import { DynamicField, DynamicFieldMap } from '../DynamicField';
+import { DynamicField, DynamicFieldMap, isFieldIncluded, resolveDynamicField } from '../DynamicField';
 import { nodeIdForParameterizedValue } from './SnapshotEditor';
 import { walkOperation } from '../util';
-import { CacheContext } from '../context';
+import { CacheContext, parseScalar, timestamp } from '../context';
 import { GraphSnapshot } from '../GraphSnapshot';
-import { NodeId, ParsedQuery, Query } from '../schema';
-import { isObject } from '../util';
+import { NodeId, ParsedQuery, Query, StaticNodeTypeName } from '../schema';
+import { addToSet, isObject, lazyImmutableDeepSet } from '../util';
+
+/**
+ * Describes a value requested by a query, but missing from the cache.
+ */
+export interface MissingValue {
+  /** The path (of response keys and indexes) to the value, from the root. */
+  path: PathPart[];
+  /** The id of the node (entity or parameterized value) that should hold it. */
+  nodeId: NodeId;
+  /**
+   * Whether the value is missing because its parameterized value node
+   * (`nodeId`) is absent from the cache.
+   */
+  parameterizedValueAbsent?: true;
+}
 
 export interface QueryResult {
   /** The value of the root requested by a query. */
   result?: JsonObject;
   /** Whether the query's selection set was satisfied. */
   complete: boolean;
+  /** If the query's selection set was not satisfied, what is missing. */
+  missing?: MissingValue[];
 }
 
 export interface QueryResultWithNodeIds extends QueryResult {
@@ -21,21 +38,43 @@ export interface QueryResultWithNodeIds extends QueryResult {
 
 /**
  * Get you some data.
+ *
+ * The values missing from incomplete results are only described if
+ * `includeMissing` is requested.
  */
-export function read(context: CacheContext, query: Query, snapshot: GraphSnapshot): QueryResult;
-export function read(context: CacheContext, query: Query, snapshot: GraphSnapshot, includeNodeIds: true): QueryResultWithNodeIds;
-export function read(context: CacheContext, query: Query, snapshot: GraphSnapshot, includeNodeIds?: true) {
+export function read(
+  context: CacheContext, query: Query, snapshot: GraphSnapshot, includeNodeIds?: undefined, includeMissing?: true,
+): QueryResult;
+export function read(
+  context: CacheContext, query: Query, snapshot: GraphSnapshot, includeNodeIds: true, includeMissing?: true,
+): QueryResultWithNodeIds;
+export function read(context: CacheContext, query: Query, snapshot: GraphSnapshot, includeNodeIds?: true, includeMissing?: true) {
+  const { metrics } = context;
   const parsed = context.parseQuery(query);
   let queryResult = snapshot.readCache.get(parsed) as Partial<QueryResultWithNodeIds>;
+  if (metrics) {
+    metrics.increment('reads');
+    if (queryResult) metrics.increment('readCacheHits');
+  }
+
   if (!queryResult) {
     let result = snapshot.get(parsed.rootId);
 
     const { dynamicFieldMap } = parsed;
+    const parameterizedNodeIds = includeNodeIds ? new Set<NodeId>() : undefined;
     if (dynamicFieldMap) {
-      result = _walkAndOverlayDynamicValues(parsed, context, snapshot, dynamicFieldMap, result);
+      const overlayStart = metrics && timestamp();
+      result = _walkAndOverlayDynamicValues(parsed, context, snapshot, dynamicFieldMap, result, parameterizedNodeIds);
+      if (metrics) metrics.addTimeSince('overlayTime', overlayStart!);
     }
 
-    let { complete, nodeIds } = _visitSelection(parsed, context, result, includeNodeIds);
+    const visitStart = metrics && timestamp();
+    let { complete, nodeIds, missingPaths } = _visitSelection(parsed, context, result, includeNodeIds, includeMissing);
+    if (metrics) metrics.addTimeSince('visitSelectionTime', visitStart!);
+    let missing: MissingValue[] | undefined;
+    if (nodeIds && parameterizedNodeIds) {
+      addToSet(nodeIds, parameterizedNodeIds);
+    }
 
     // This should NEVER be true.
     //
@@ -48,9 +87,18 @@ export function read(context: CacheContext, query: Query, snapshot: GraphSnapsho
       });
       // Recover in this case.
       complete = true;
+    } else if (!complete && includeMissing) {
+      missing = missingPaths.map(path => _locateMissingValue(parsed, context, snapshot, result, path));
+    }
+
+    // Custom scalars are parsed once per version of the cache; all subsequent
+    // reads share the parsed values.
+    if (context.hasScalarFields && result !== undefined) {
+      result = _parseScalarValues(parsed, context, result);
     }
 
     queryResult = { result, complete, nodeIds };
+    if (missing) queryResult.missing = missing;
     snapshot.readCache.set(parsed, queryResult as QueryResult);
   }
 
@@ -58,11 +106,26 @@ export function read(context: CacheContext, query: Query, snapshot: GraphSnapsho
   // up with an ask for them.  In that case, we need to fill in the cache a bit
   // more.
   if (includeNodeIds && !queryResult.nodeIds) {
+    const visitStart = metrics && timestamp();
     const { complete, nodeIds } = _visitSelection(parsed, context, queryResult.result, includeNodeIds);
+    if (metrics) metrics.addTimeSince('visitSelectionTime', visitStart!);
+    // The overlay was built without tracking the parameterized values it
+    // visited; walk it again to collect them.
+    if (parsed.dynamicFieldMap) {
+      _walkAndOverlayDynamicValues(parsed, context, snapshot, parsed.dynamicFieldMap, snapshot.get(parsed.rootId), nodeIds);
+    }
     queryResult.complete = complete;
     queryResult.nodeIds = nodeIds;
   }
 
+  // Similarly, the values missing from a previous (incomplete) result may not
+  // have been described.
+  if (includeMissing && !queryResult.complete && !queryResult.missing) {
+    const { result } = queryResult;
+    const { missingPaths } = _visitSelection(parsed, context, result, undefined, includeMissing);
+    queryResult.missing = missingPaths.map(path => _locateMissingValue(parsed, context, snapshot, result, path));
+  }
+
   return queryResult;
 }
 
@@ -82,6 +145,15 @@ class OverlayWalkNode {
  * Overlaid values are objects with prototypes pointing to the original results,
  * and new properties pointing to the parameterized values (or objects that
  * contain them).
+ *
+ * Local-only fields with a resolver (see `CacheContext.localResolver`) are
+ * overlaid with the values it computes.  Parameterized values missing from the
+ * snapshot are overlaid with the entity their read policy redirects to (see
+ * `CacheContext.readPolicy`), if any.
+ *
+ * If `nodeIds` is provided, the ids of all parameterized values visited, and
+ * of the entities their read policies redirect to, are added to it (even those
+ * missing from the snapshot).
  */
 export function _walkAndOverlayDynamicValues(
   query: ParsedQuery,
@@ -89,6 +161,7 @@ export function _walkAndOverlayDynamicValues(
   snapshot: GraphSnapshot,
   fields: DynamicFieldMap,
   result: JsonObject,
+  nodeIds?: Set<NodeId>,
 ): JsonObject {
   // Corner case: We stop walking once we reach a parameterized field with no
   // snapshot, but we should also preemptively stop walking if there are no
@@ -100,7 +173,10 @@ export function _walkAndOverlayDynamicValues(
   if (!rootSnapshot || !(rootSnapshot.outbound || fields)) {
     // For now, what's probably good enough is to just stop the walk if we have
     // no root snapshot making outbound references to any other fields.
-    return result;
+    //
+    // Local fields (and redirected fields) of the root can still be resolved
+    // without one, though.
+    if (!_resolvesWithoutRoot(context, query.rootId, fields)) return result;
   }
 
   // TODO: A better approach here might be to walk the outbound references from
@@ -124,19 +200,37 @@ export function _walkAndOverlayDynamicValues(
     }
 
     for (const key in fieldMap) {
-      let field: DynamicFieldMap | DynamicField | undefined = fieldMap[key];
+      let field: DynamicFieldMap | DynamicField | undefined = resolveDynamicField(fieldMap[key], value, context.matchesTypeCondition);
+      // Not selected dynamically for this type of value (or at all).
+      if (!field || !isFieldIncluded(field)) continue;
       let child, childId;
       let fieldName = key;
 
       if (field instanceof DynamicField) {
         // If exist filedName property then the current key is an alias
         fieldName = field.fieldName ? field.fieldName : key;
+        const resolver = field.isLocal ? context.localResolver(_typeNameOf(value, containerId, path), fieldName) : undefined;
 
-        if (field.args) {
-          childId = nodeIdForParameterizedValue(containerId, [...path, fieldName], field.args);
+        if (resolver) {
+          child = resolver(value, field.args || {});
+        } else if (field.args) {
+          const keyArgs = context.keyArgs(_typeNameOf(value, containerId, path), fieldName, field.args);
+          childId = nodeIdForParameterizedValue(containerId, [...path, fieldName], keyArgs);
+          if (nodeIds) {
+            nodeIds.add(childId);
+          }
           const childSnapshot = snapshot.getNodeSnapshot(childId);
           if (childSnapshot) {
             child = childSnapshot.node;
+          } else {
+            const targetId = _readPolicyTarget(context, value, containerId, path, fieldName, field.args);
+            // Track the target even if it is missing; it may be written later.
+            if (targetId !== undefined && nodeIds) {
+              nodeIds.add(targetId);
+            }
+            if (targetId !== undefined && snapshot.has(targetId)) {
+              child = snapshot.get(targetId);
+            }
           }
         } else {
           child = value[fieldName];
@@ -170,6 +264,45 @@ export function _walkAndOverlayDynamicValues(
   return newResult;
 }
 
+/**
+ * Whether any of the fields (directly) within a root's field map can be read
+ * without the root: local-only fields, or those with a read policy.
+ */
+function _resolvesWithoutRoot(context: CacheContext, rootId: NodeId, fields: DynamicFieldMap): boolean {
+  return Object.keys(fields).some((key) => {
+    const field = resolveDynamicField(fields[key], undefined);
+    if (!(field instanceof DynamicField)) return false;
+    if (field.isLocal) return true;
+    return !!field.args && !!context.readPolicy(StaticNodeTypeName[rootId], field.fieldName || key);
+  });
+}
+
+/**
+ * The id of the entity that a read policy redirects a parameterized field to,
+ * if any (whether or not that entity exists in the snapshot).
+ */
+function _readPolicyTarget(
+  context: CacheContext,
+  container: JsonObject | undefined,
+  containerId: NodeId,
+  path: PathPart[],
+  fieldName: string,
+  args: JsonObject,
+): NodeId | undefined {
+  const policy = context.readPolicy(isObject(container) ? _typeNameOf(container, containerId, path) : undefined, fieldName);
+  const entityId = policy && policy(args);
+  return entityId === undefined ? undefined : String(entityId);
+}
+
+/**
+ * The GraphQL type of a value, per its __typename (or the root it is).
+ */
+function _typeNameOf(value: JsonObject, containerId: NodeId, path: PathPart[]): string | undefined {
+  const { __typename } = value;
+  if (typeof __typename === 'string') return __typename;
+  return path.length ? undefined : StaticNodeTypeName[containerId];
+}
+
 function _wrapValue(value: JsonValue): any {
   if (value === undefined) return {};
   if (Array.isArray(value)) return [...value];
@@ -179,14 +312,29 @@ function _wrapValue(value: JsonValue): any {
 
 /**
  * Determines whether `result` satisfies the properties requested by `selection`.
+ *
+ * If `includeMissing`, the paths of all missing values are collected in
+ * `missingPaths`.  Otherwise, the walk stops at the first (unless it must
+ * continue to collect node ids).
  */
 export function _visitSelection(
   query: ParsedQuery,
   context: CacheContext,
   result?: JsonObject,
   includeNodeIds?: true,
-): { complete: boolean, nodeIds?: Set<NodeId> } {
-  let complete = true;
+  includeMissing?: true,
+): { complete: boolean, nodeIds?: Set<NodeId>, missingPaths: PathPart[][] } {
+  const missingPaths: PathPart[][] = [];
+  // A value missing from the result is reported both by its parent's visit,
+  // and its own (if it has a selection set).
+  const missingKeys = new Set<string>();
+  function addMissing(path: PathPart[]) {
+    const key = JSON.stringify(path);
+    if (missingKeys.has(key)) return;
+    missingKeys.add(key);
+    missingPaths.push(path);
+  }
+
   let nodeIds: Set<NodeId> | undefined;
   if (includeNodeIds) {
     nodeIds = new Set<NodeId>();
@@ -196,17 +344,19 @@ export function _visitSelection(
   }
 
   // TODO: Memoize per query, and propagate through cache snapshots.
-  walkOperation(query.info.document, result, (value, fields) => {
+  // Once incomplete, there's nothing else to learn unless we're collecting
+  // missing paths or node ids.
+  const stopWhenIncomplete = !includeMissing && !includeNodeIds;
+
+  walkOperation(query.info.document, result, (value, fields, path) => {
     if (value === undefined) {
-      complete = false;
+      addMissing(path);
+      return stopWhenIncomplete;
     }
 
-    // If we're not including node ids, we can stop the walk right here.
-    if (!complete) return !includeNodeIds;
-
     if (!isObject(value)) return false;
 
-    if (nodeIds && isObject(value)) {
+    if (nodeIds) {
       const nodeId = context.entityIdForNode(value);
       if (nodeId !== undefined) {
         nodeIds.add(nodeId);
@@ -214,14 +364,115 @@ export function _visitSelection(
     }
 
     for (const field of fields) {
-      if (!(field.name.value in value)) {
-        complete = false;
-        break;
+      const key = field.alias ? field.alias.value : field.name.value;
+      if (value[key] === undefined) {
+        addMissing([...path, key]);
+        if (!includeMissing) break;
+      }
+    }
+
+    return stopWhenIncomplete && missingPaths.length > 0;
+  }, {
+    typeConditionMatcher: context.matchesTypeCondition,
+    variables: { ...query.info.variableDefaults, ...query.variables } as JsonObject,
+  });
+
+  return { complete: !missingPaths.length, nodeIds, missingPaths };
+}
+
+/**
+ * Replaces the (serialized) values of custom scalar fields selected by the
+ * query with their parsed values, copying any objects along their paths.
+ */
+function _parseScalarValues(query: ParsedQuery, context: CacheContext, result: JsonObject): JsonObject {
+  const scalarValues: { path: PathPart[], codec: CacheContext.ScalarCodec }[] = [];
+  walkOperation(query.info.document, result, (value, fields, path) => {
+    if (!isObject(value)) return false;
+
+    const typeName = _typeNameOf(value, query.rootId, path);
+    for (const field of fields) {
+      const codec = context.scalarCodec(typeName, field.name.value);
+      const key = field.alias ? field.alias.value : field.name.value;
+      if (codec && value[key] !== undefined) {
+        scalarValues.push({ path: [...path, key], codec });
       }
     }
 
     return false;
+  }, {
+    typeConditionMatcher: context.matchesTypeCondition,
+    variables: { ...query.info.variableDefaults, ...query.variables } as JsonObject,
   });
 
-  return { complete, nodeIds };
+  let parsed: JsonObject | undefined;
+  for (const { path, codec } of scalarValues) {
+    parsed = lazyImmutableDeepSet(parsed, result, path, parseScalar(codec, _valueAt(result, path)));
+  }
+  return parsed || result;
+}
+
+function _valueAt(value: any, path: PathPart[]): JsonValue {
+  for (const part of path) {
+    value = value[part];
+  }
+  return value;
+}
+
+/**
+ * Determines which node a missing value (at `path` within `result`) belongs
+ * to, following the same rules as `_walkAndOverlayDynamicValues`.
+ */
+function _locateMissingValue(
+  query: ParsedQuery,
+  context: CacheContext,
+  snapshot: GraphSnapshot,
+  result: JsonObject | undefined,
+  path: PathPart[],
+): MissingValue {
+  let nodeId = query.rootId;
+  // Parameterized value ids are relative to the containing entity.
+  let containerId = query.rootId;
+  let containerPath: PathPart[] = [];
+  let fieldMap = query.dynamicFieldMap;
+  let value: any = result;
+
+  for (let i = 0; i < path.length; i++) {
+    const part = path[i];
+    if (typeof part === 'number') {
+      containerPath = [...containerPath, part];
+    } else {
+      let field = resolveDynamicField(fieldMap && fieldMap[part], value, context.matchesTypeCondition);
+      let fieldName = part;
+      if (field instanceof DynamicField) {
+        fieldName = field.fieldName ? field.fieldName : part;
+        if (field.args) {
+          const typeName = isObject(value) ? _typeNameOf(value, containerId, containerPath) : undefined;
+          const keyArgs = context.keyArgs(typeName, fieldName, field.args);
+          nodeId = nodeIdForParameterizedValue(containerId, [...containerPath, fieldName], keyArgs);
+          if (!snapshot.has(nodeId)) {
+            const targetId = _readPolicyTarget(context, value, containerId, containerPath, fieldName, field.args);
+            if (targetId === undefined || !snapshot.has(targetId)) {
+              return { path, nodeId, parameterizedValueAbsent: true };
+            }
+            nodeId = targetId;
+          }
+        }
+        field = field.children;
+      }
+      fieldMap = field as DynamicFieldMap | undefined;
+      containerPath = [...containerPath, fieldName];
+    }
+
+    // The final part is the missing value itself.
+    if (i === path.length - 1) break;
+
+    value = value !== null && typeof value === 'object' ? value[part] : undefined;
+    const entityId = isObject(value) ? context.entityIdForNode(value) : undefined;
+    if (entityId !== undefined) {
+      nodeId = containerId = entityId;
+      containerPath = [];
+    }
+  }
+
+  return { path, nodeId };
 }
@@ -0,0 +1,85 @@
+import lodashCloneDeep = require('lodash.clonedeep');
+
+import { CacheContext } from '../context';
+import { GraphSnapshot } from '../GraphSnapshot';
+import { EntitySnapshot, NodeSnapshot, ParameterizedValueSnapshot } from '../nodes';
+import { JsonObject, PathPart } from '../primitive';
+import { NodeId, SerializationVersion, SerializedGraph, SerializedNode, SerializedNodeType } from '../schema';
+
+/**
+ * Rebuilds a graph snapshot from the output of `extract`.
+ *
+ * All references between nodes are re-linked, so that shared values have the
+ * same identity as they would in a snapshot built via writes.
+ */
+export function restore(context: CacheContext, serialized: SerializedGraph): GraphSnapshot {
+  if (!serialized || serialized.version !== SerializationVersion) {
+    const version = serialized ? serialized.version : undefined;
+    throw new Error(`Unsupported serialization version: ${version} (expected ${SerializationVersion})`);
+  }
+
+  const values: { [Key in NodeId]: NodeSnapshot } = Object.create(null);
+  for (const id in serialized.nodes) {
+    values[id] = _deserializeNode(id, serialized.nodes[id]);
+  }
+
+  // Now that every node exists, point all references at their targets.
+  for (const id in values) {
+    const snapshot = values[id];
+    if (!snapshot.outbound) continue;
+
+    for (const { id: referenceId, path } of snapshot.outbound) {
+      if (!path) continue;
+      const target = values[referenceId];
+      if (!target) {
+        throw new Error(`Serialized node ${id} references missing node ${referenceId}`);
+      }
+      snapshot.node = _setReference(snapshot.node, path, target.node);
+    }
+  }
+
+  const { entityTransformer } = context;
+  if (entityTransformer) {
+    for (const id in values) {
+      const snapshot = values[id];
+      if (snapshot instanceof EntitySnapshot && snapshot.node) {
+        entityTransformer(snapshot.node);
+      }
+    }
+  }
+
+  return new GraphSnapshot(values);
+}
+
+/**
+ * Builds a (not yet linked) node snapshot from its serialized form.
+ */
+function _deserializeNode(id: NodeId, { type, node, inbound, outbound }: SerializedNode): NodeSnapshot {
+  // We mutate values while linking them, so must not touch the caller's copy.
+  const value = lodashCloneDeep(node);
+  const inboundCopy = inbound ? inbound.map(r => ({ ...r })) : undefined;
+  const outboundCopy = outbound ? outbound.map(r => ({ ...r })) : undefined;
+
+  if (type === SerializedNodeType.Entity) {
+    return new EntitySnapshot(value as JsonObject, inboundCopy, outboundCopy);
+  } else if (type === SerializedNodeType.ParameterizedValue) {
+    return new ParameterizedValueSnapshot(value, inboundCopy, outboundCopy);
+  } else {
+    throw new Error(`Unknown serialized node type ${JSON.stringify(type)} for node ${id}`);
+  }
+}
+
+/**
+ * Mutates a freshly deserialized value, setting `target` at `path`.
+ */
+function _setReference(value: any, path: PathPart[], target: any): any {
+  if (!path.length) return target;
+
+  let container = value;
+  for (let i = 0; i < path.length - 1; i++) {
+    container = container[path[i]];
+  }
+  container[path[path.length - 1]] = target;
+
+  return value;
+}
@@ -0,0 +1,99 @@
+import { CacheContext } from '../context';
+import { GraphSnapshot } from '../GraphSnapshot';
+import { EntitySnapshot } from '../nodes';
+import { NodeId, Query } from '../schema';
+import { reachableNodeIds } from '../util';
+
+import { read } from './read';
+
+export namespace toDot {
+
+  /**
+   * Configuration for `toDot`.
+   */
+  export interface Options {
+    /** The name of the emitted graph.  By default, `hermes`. */
+    graphName?: string;
+
+    /**
+     * If provided, only nodes reachable from these roots (and references
+     * between them) are emitted.
+     */
+    rootIds?: NodeId[];
+
+    /**
+     * If provided, only nodes selected by this query (and references between
+     * them) are emitted.  Requires `context`.
+     */
+    query?: Query;
+
+    /** The context to execute `query` with. */
+    context?: CacheContext;
+  }
+
+}
+
+/**
+ * Renders a graph snapshot in the Graphviz DOT language.
+ *
+ * Entities are emitted as boxes, and parameterized values as dashed ellipses.
+ * References are emitted as edges labeled by their paths (or dotted, if they
+ * have no path).
+ */
+export function toDot(snapshot: GraphSnapshot, options: toDot.Options = {}): string {
+  const nodeIds = _selectNodeIds(snapshot, options);
+
+  const lines = [
+    `digraph ${_quote(options.graphName || 'hermes')} {`,
+    `  node [fontname="monospace"];`,
+    `  edge [fontname="monospace"];`,
+  ];
+
+  for (const nodeId of nodeIds) {
+    const attributes = snapshot.getNodeSnapshot(nodeId) instanceof EntitySnapshot
+      ? 'shape=box'
+      : 'shape=ellipse, style=dashed';
+    lines.push(`  ${_quote(nodeId)} [${attributes}];`);
+  }
+
+  for (const nodeId of nodeIds) {
+    const { outbound } = snapshot.getNodeSnapshot(nodeId)!;
+    if (!outbound) continue;
+    for (const { id, path } of outbound) {
+      if (!nodeIds.has(id)) continue;
+      const attributes = path ? `label=${_quote(path.join('.'))}` : 'style=dotted';
+      lines.push(`  ${_quote(nodeId)} -> ${_quote(id)} [${attributes}];`);
+    }
+  }
+
+  lines.push(`}`);
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Determines which nodes should be emitted.
+ */
+function _selectNodeIds(snapshot: GraphSnapshot, { rootIds, query, context }: toDot.Options): Set<NodeId> {
+  let nodeIds = new Set(snapshot.allNodeIds());
+
+  if (rootIds) {
+    nodeIds = reachableNodeIds(rootIds, id => snapshot.getNodeSnapshot(id));
+  }
+
+  if (query) {
+    if (!context) {
+      throw new Error(`toDot requires a context in order to filter by query`);
+    }
+    const selected = read(context, query, snapshot, true).nodeIds;
+    nodeIds = new Set(Array.from(nodeIds).filter(id => selected.has(id)));
+  }
+
+  return nodeIds;
+}
+
+/**
+ * Quotes an identifier per the DOT language.
+ */
+function _quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
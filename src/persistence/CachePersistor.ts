@@ -0,0 +1,210 @@
+import { Cache } from '../Cache';
+import { CacheContext } from '../context';
+import { SerializedGraph } from '../schema';
+
+import { StorageAdapter } from './StorageAdapter';
+
+export namespace CachePersistor {
+
+  /**
+   * Configuration for a cache persistor.
+   */
+  export interface Options {
+    /** The storage to persist the cache to. */
+    storage: StorageAdapter;
+
+    /**
+     * The key to store the cache's data under.  By default,
+     * `apollo-cache-hermes`.
+     */
+    key?: string;
+
+    /**
+     * The number of milliseconds to wait after a change before persisting the
+     * cache; subsequent changes within that time restart the wait.  By
+     * default, 1000.
+     *
+     * A value of 0 persists after every change.
+     */
+    debounce?: number;
+
+    /**
+     * The maximum size (in characters) of the serialized cache.  If exceeded,
+     * any previously persisted data is purged, rather than left stale.
+     *
+     * By default, there is no limit.
+     */
+    maxSize?: number;
+
+    /**
+     * The logger to use when emitting messages. By default, the cache's.
+     */
+    logger?: CacheContext.Logger;
+  }
+
+}
+
+/**
+ * Persists the contents of a cache to a storage adapter as it changes, and
+ * restores them on request.
+ */
+export class CachePersistor {
+
+  /** The storage being persisted to. */
+  private readonly _storage: StorageAdapter;
+  /** The key that the cache's data is stored under. */
+  private readonly _key: string;
+  /** Milliseconds to wait after a change before persisting. */
+  private readonly _debounce: number;
+  /** The maximum size of the serialized cache, if any. */
+  private readonly _maxSize: number | undefined;
+  /** The logger we should use. */
+  private readonly _logger: CacheContext.Logger;
+  /** Unregisters us from the cache's changes. */
+  private _unsubscribe: (() => void) | undefined;
+  /** The pending (debounced) persist, if any. */
+  private _timeout: NodeJS.Timer | undefined;
+  /** The persist (or purge) currently writing to storage, if any. */
+  private _writing: Promise<void> | undefined;
+  /** Whether we are currently restoring data into the cache. */
+  private _restoring = false;
+
+  constructor(
+    /** The cache being persisted. */
+    private readonly _cache: Cache,
+    options: CachePersistor.Options,
+  ) {
+    this._storage = options.storage;
+    this._key = options.key || 'apollo-cache-hermes';
+    this._debounce = options.debounce === undefined ? 1000 : options.debounce;
+    this._maxSize = options.maxSize;
+    this._logger = options.logger || this._cache.getLogger();
+
+    this._unsubscribe = this._cache.onChange(() => this._schedulePersist());
+  }
+
+  /**
+   * Loads any previously persisted data into the cache, returning whether
+   * there was any.
+   *
+   * This should be awaited before any queries are observed, so that observers
+   * begin with the restored values.
+   */
+  async restore(): Promise<boolean> {
+    const serialized = await this._storage.getItem(this._key);
+    if (!serialized) return false;
+
+    const data = JSON.parse(serialized) as SerializedGraph;
+    // The data is already persisted; there's no need to turn around and write
+    // it back out.
+    this._restoring = true;
+    try {
+      this._cache.restore(data);
+    } finally {
+      this._restoring = false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Immediately persists the current contents of the cache.
+   *
+   * If a previous persist is still being written, this one waits for it (so
+   * that older contents never overwrite newer ones).
+   */
+  async persist(): Promise<void> {
+    this._cancelPending();
+    await this._enqueueWrite(() => this._write());
+  }
+
+  /**
+   * Removes any persisted data from storage.
+   */
+  async purge(): Promise<void> {
+    this._cancelPending();
+    await this._enqueueWrite(async() => {
+      await this._storage.removeItem(this._key);
+    });
+  }
+
+  /**
+   * Stops persisting changes to the cache (any pending persist is dropped).
+   */
+  stop(): void {
+    this._cancelPending();
+    if (this._unsubscribe) {
+      this._unsubscribe();
+      this._unsubscribe = undefined;
+    }
+  }
+
+  // Internal
+
+  /**
+   * Persist the cache once it has settled down.
+   */
+  private _schedulePersist(): void {
+    if (this._restoring) return;
+
+    if (!this._debounce) {
+      this._persistInBackground();
+      return;
+    }
+
+    this._cancelPending();
+    this._timeout = setTimeout(() => this._persistInBackground(), this._debounce);
+  }
+
+  /**
+   * Persist, without anyone waiting on the result.
+   */
+  private _persistInBackground(): void {
+    this.persist().catch((error) => {
+      this._logger.error(`Failed to persist the cache:`, error);
+    });
+  }
+
+  /**
+   * Runs `write` once any write still in progress has finished.
+   */
+  private _enqueueWrite(write: () => Promise<void>): Promise<void> {
+    const previous = this._writing;
+    const current = previous ? previous.then(write, write) : write();
+    this._writing = current;
+
+    const settle = () => {
+      if (this._writing === current) this._writing = undefined;
+    };
+    current.then(settle, settle);
+
+    return current;
+  }
+
+  /**
+   * Writes the current contents of the cache to storage.
+   */
+  private async _write(): Promise<void> {
+    const serialized = JSON.stringify(this._cache.extract());
+    if (this._maxSize !== undefined && serialized.length > this._maxSize) {
+      this._logger.warn(
+        `Not persisting the cache; its size (${serialized.length}) exceeds the maximum of ${this._maxSize}.`,
+        `Purging any previously persisted data.`,
+      );
+      await this._storage.removeItem(this._key);
+      return;
+    }
+
+    await this._storage.setItem(this._key, serialized);
+  }
+
+  /**
+   * Drop any pending persist.
+   */
+  private _cancelPending(): void {
+    if (this._timeout === undefined) return;
+    clearTimeout(this._timeout);
+    this._timeout = undefined;
+  }
+
+}
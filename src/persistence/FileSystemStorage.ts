@@ -0,0 +1,56 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { StorageAdapter } from './StorageAdapter';
+
+/**
+ * A storage adapter that stores each value as a file within a directory, for
+ * use in Node environments.
+ *
+ * The directory is expected to already exist.
+ */
+export class FileSystemStorage implements StorageAdapter {
+
+  constructor(
+    /** The directory to store values in. */
+    private _directory: string,
+  ) {}
+
+  getItem(key: string): Promise<string | null> {
+    return new Promise((resolve, reject) => {
+      fs.readFile(this._pathForKey(key), 'utf8', (error, data) => {
+        if (error) {
+          if (error.code === 'ENOENT') return resolve(null);
+          return reject(error);
+        }
+        return resolve(data);
+      });
+    });
+  }
+
+  setItem(key: string, value: string): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      fs.writeFile(this._pathForKey(key), value, 'utf8', (error) => {
+        if (error) return reject(error);
+        return resolve();
+      });
+    });
+  }
+
+  removeItem(key: string): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      fs.unlink(this._pathForKey(key), (error) => {
+        if (error && error.code !== 'ENOENT') return reject(error);
+        return resolve();
+      });
+    });
+  }
+
+  /**
+   * Keys are arbitrary strings, so we escape them into valid file names.
+   */
+  private _pathForKey(key: string): string {
+    return path.join(this._directory, encodeURIComponent(key));
+  }
+
+}
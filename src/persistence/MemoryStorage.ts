@@ -0,0 +1,26 @@
+import { StorageAdapter } from './StorageAdapter';
+
+/**
+ * A (synchronous) storage adapter that keeps all values in memory.
+ *
+ * Primarily useful for tests, and for sharing persisted state between caches
+ * within the same process.
+ */
+export class MemoryStorage implements StorageAdapter {
+
+  /** All stored values, by key. */
+  private _values = new Map<string, string>();
+
+  getItem(key: string): string | undefined {
+    return this._values.get(key);
+  }
+
+  setItem(key: string, value: string): void {
+    this._values.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this._values.delete(key);
+  }
+
+}
@@ -0,0 +1,25 @@
+/**
+ * A key/value store that persisted cache data can be written to.
+ *
+ * Modeled after the DOM's `Storage` interface (e.g. `localStorage`), with the
+ * addition that any operation may be asynchronous (e.g. React Native's
+ * `AsyncStorage`).
+ */
+export interface StorageAdapter {
+
+  /**
+   * Retrieves the value stored under `key`, or null/undefined if there is none.
+   */
+  getItem(key: string): string | null | undefined | Promise<string | null | undefined>;
+
+  /**
+   * Stores `value` under `key`, replacing any previous value.
+   */
+  setItem(key: string, value: string): void | Promise<void>;
+
+  /**
+   * Removes any value stored under `key`.
+   */
+  removeItem(key: string): void | Promise<void>;
+
+}
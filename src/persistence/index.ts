@@ -0,0 +1,9 @@
+/**
+ * @fileoverview
+ *
+ * Note that `FileSystemStorage` is intentionally not exported here, as it
+ * depends on Node built-ins.  Import it directly from `./FileSystemStorage`.
+ */
+export { CachePersistor } from './CachePersistor';
+export { MemoryStorage } from './MemoryStorage';
+export { StorageAdapter } from './StorageAdapter';
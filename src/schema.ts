@@ -2,7 +2,8 @@ import { DocumentNode } from 'graphql'; // eslint-disable-line import/no-extrane
 
 import { QueryInfo } from './context';
 import { DynamicFieldMap } from './DynamicField';
-import { JsonObject } from './primitive';
+import { NodeReference } from './nodes';
+import { JsonObject, JsonValue } from './primitive';
 
 /**
  * Change ids track diffs to the store that may eventually be rolled back.
@@ -30,6 +31,15 @@ export enum StaticNodeId {
   SubscriptionRoot = 'ROOT_SUBSCRIPTION',
 }
 
+/**
+ * The GraphQL types of the pre-defined nodes.
+ */
+export const StaticNodeTypeName: { [Key: string]: string | undefined } = {
+  [StaticNodeId.QueryRoot]: 'Query',
+  [StaticNodeId.MutationRoot]: 'Mutation',
+  [StaticNodeId.SubscriptionRoot]: 'Subscription',
+};
+
 /**
  * All the information needed to describe a complete GraphQL query that can be
  * made against the cache (read or written).
@@ -64,3 +74,42 @@ export interface QuerySnapshot {
   query: Query;
   payload?: JsonObject;
 }
+
+/**
+ * The version of the serialization format produced by `extract`.
+ *
+ * Bumped whenever the format changes in an incompatible way.
+ */
+export const SerializationVersion = 2;
+
+/**
+ * The kinds of node snapshots that can be serialized.
+ */
+export enum SerializedNodeType {
+  Entity = 'entity',
+  ParameterizedValue = 'parameterizedValue',
+}
+
+/**
+ * A JSON-safe representation of a single node snapshot.
+ */
+export interface SerializedNode {
+  /** The kind of node snapshot. */
+  type: SerializedNodeType;
+  /** The node's value, with all references to other nodes replaced by null. */
+  node?: JsonValue;
+  /** Other nodes that point to this one. */
+  inbound?: NodeReference[];
+  /** The nodes that this one points to. */
+  outbound?: NodeReference[];
+}
+
+/**
+ * A JSON-safe representation of an entire graph snapshot.
+ */
+export interface SerializedGraph {
+  /** The version of the serialization format. */
+  version: number;
+  /** Every node in the graph, indexed by id. */
+  nodes: { [Key in NodeId]: SerializedNode };
+}
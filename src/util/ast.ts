@@ -1,16 +1,22 @@
 import lodashCloneDeep = require('lodash.clonedeep');
 import { // eslint-disable-line import/no-extraneous-dependencies, import/no-unresolved
+  ArgumentNode,
   DefinitionNode,
+  DirectiveNode,
   DocumentNode,
   FieldNode,
   FragmentDefinitionNode,
+  Location,
   OperationDefinitionNode,
+  ObjectFieldNode,
+  SelectionNode,
   SelectionSetNode,
+  TypeNode,
   ValueNode,
   VariableNode,
 } from 'graphql';
 
-import { JsonValue } from '../primitive';
+import { JsonObject, JsonValue } from '../primitive';
 
 import { isObject } from './primitive';
 
@@ -93,6 +99,200 @@ export function valueFromNode(node: ValueNode, onVariable: VariableValue = _defa
   }
 }
 
+/**
+ * Builds a ValueNode representing a JS value (the inverse of `valueFromNode`).
+ */
+export function nodeFromValue(value: JsonValue): ValueNode {
+  if (value === null) {
+    return { kind: 'NullValue' };
+  } else if (typeof value === 'boolean') {
+    return { kind: 'BooleanValue', value };
+  } else if (typeof value === 'number') {
+    return { kind: value % 1 === 0 ? 'IntValue' : 'FloatValue', value: String(value) } as ValueNode;
+  } else if (typeof value === 'string') {
+    return { kind: 'StringValue', value };
+  } else if (Array.isArray(value)) {
+    return { kind: 'ListValue', values: value.map(nodeFromValue) };
+  }
+
+  const fields: ObjectFieldNode[] = Object.keys(value).map(name => ({
+    kind: 'ObjectField' as 'ObjectField',
+    name: { kind: 'Name' as 'Name', value: name },
+    value: nodeFromValue(value[name]),
+  }));
+  return { kind: 'ObjectValue', fields };
+}
+
+/**
+ * The fields of a value (and those of the values within it), by name.  Leaf
+ * fields are null.
+ */
+interface ValueShape {
+  [Key: string]: ValueShape | null;
+}
+
+/**
+ * Builds a query that selects every field of `value`, and of the values within
+ * it (the fields of all objects within an array are selected for each).
+ */
+export function queryForValue(value: JsonObject): DocumentNode {
+  const shape = _addValueShape(value, null) || {};
+  const body = _sourceForShape(shape);
+
+  return {
+    kind: 'Document',
+    definitions: [{
+      kind: 'OperationDefinition',
+      operation: 'query',
+      variableDefinitions: [],
+      directives: [],
+      selectionSet: _selectionSetForShape(shape),
+    }],
+    // The source of a document identifies it within the cache.
+    loc: { start: 0, end: body.length, source: { body, name: 'GraphQL request' } } as Location,
+  };
+}
+
+/**
+ * Adds the fields of `value` to `shape`.  Values already being visited (e.g.
+ * cyclic references between entities) are not revisited.
+ */
+function _addValueShape(value: JsonValue, shape: ValueShape | null, visiting = new Set<object>()): ValueShape | null {
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      shape = _addValueShape(item, shape, visiting);
+    }
+    return shape;
+  }
+  if (!isObject(value) || visiting.has(value)) return shape;
+
+  visiting.add(value);
+  const objectShape = shape || {};
+  for (const key of Object.keys(value)) {
+    objectShape[key] = _addValueShape(value[key], objectShape[key] || null, visiting);
+  }
+  visiting.delete(value);
+  return objectShape;
+}
+
+function _selectionSetForShape(shape: ValueShape): SelectionSetNode {
+  return {
+    kind: 'SelectionSet',
+    selections: Object.keys(shape).map((name): FieldNode => {
+      const child = shape[name];
+      return {
+        kind: 'Field',
+        name: { kind: 'Name', value: name },
+        selectionSet: child ? _selectionSetForShape(child) : undefined,
+      };
+    }),
+  };
+}
+
+function _sourceForShape(shape: ValueShape): string {
+  const fields = Object.keys(shape).map((name) => {
+    const child = shape[name];
+    return child ? `${name} ${_sourceForShape(child)}` : name;
+  });
+  return `{ ${fields.join(' ')} }`;
+}
+
+/**
+ * Prints the GraphQL source of an operation (e.g. so that a document built
+ * programmatically can be given a `loc`).
+ */
+export function sourceForOperation(operation: OperationDefinitionNode): string {
+  const { name, variableDefinitions, directives, selectionSet } = operation;
+  let source: string = operation.operation;
+  if (name) source = `${source} ${name.value}`;
+  if (variableDefinitions && variableDefinitions.length) {
+    const definitions = variableDefinitions.map(({ variable, type, defaultValue }) => {
+      const definition = `$${variable.name.value}: ${_sourceForType(type)}`;
+      return defaultValue ? `${definition} = ${_sourceForValue(defaultValue)}` : definition;
+    });
+    source = `${source}(${definitions.join(', ')})`;
+  }
+  return `${source}${_sourceForDirectives(directives)} ${_sourceForSelectionSet(selectionSet)}`;
+}
+
+function _sourceForSelectionSet(selectionSet: SelectionSetNode): string {
+  return `{ ${selectionSet.selections.map(_sourceForSelection).join(' ')} }`;
+}
+
+function _sourceForSelection(selection: SelectionNode): string {
+  const directives = _sourceForDirectives(selection.directives);
+  if (selection.kind === 'FragmentSpread') {
+    return `...${selection.name.value}${directives}`;
+  } else if (selection.kind === 'InlineFragment') {
+    const typeCondition = selection.typeCondition ? ` on ${selection.typeCondition.name.value}` : '';
+    return `...${typeCondition}${directives} ${_sourceForSelectionSet(selection.selectionSet)}`;
+  }
+
+  let source = selection.alias ? `${selection.alias.value}: ${selection.name.value}` : selection.name.value;
+  source = `${source}${_sourceForArguments(selection.arguments)}${directives}`;
+  return selection.selectionSet ? `${source} ${_sourceForSelectionSet(selection.selectionSet)}` : source;
+}
+
+function _sourceForDirectives(directives: DirectiveNode[] | undefined): string {
+  if (!directives || !directives.length) return '';
+  return directives.map(({ name, arguments: args }) => ` @${name.value}${_sourceForArguments(args)}`).join('');
+}
+
+function _sourceForArguments(args: ArgumentNode[] | undefined): string {
+  if (!args || !args.length) return '';
+  return `(${args.map(({ name, value }) => `${name.value}: ${_sourceForValue(value)}`).join(', ')})`;
+}
+
+function _sourceForValue(node: ValueNode): string {
+  switch (node.kind) {
+  case 'Variable':
+    return `$${node.name.value}`;
+  case 'NullValue':
+    return 'null';
+  case 'StringValue':
+    return JSON.stringify(node.value);
+  case 'BooleanValue':
+    return String(node.value);
+  case 'ListValue':
+    return `[${node.values.map(_sourceForValue).join(', ')}]`;
+  case 'ObjectValue':
+    return `{${node.fields.map(({ name, value }) => `${name.value}: ${_sourceForValue(value)}`).join(', ')}}`;
+  default:
+    return node.value;
+  }
+}
+
+function _sourceForType(node: TypeNode): string {
+  if (node.kind === 'NonNullType') return `${_sourceForType(node.type)}!`;
+  if (node.kind === 'ListType') return `[${_sourceForType(node.type)}]`;
+  return node.name.value;
+}
+
+/**
+ * Whether a selection is included, per its `@include` and `@skip` directives
+ * (evaluated with `variables`).
+ */
+export function isSelectionIncluded(selection: SelectionNode, variables?: JsonObject): boolean {
+  for (const directive of selection.directives || []) {
+    const name = directive.name.value;
+    if (name !== 'include' && name !== 'skip') continue;
+    for (const argument of directive.arguments || []) {
+      if (argument.name.value !== 'if') continue;
+      const value = valueFromNode(argument.value, ({ name: { value: variable } }) => variables && variables[variable]);
+      if ((name === 'include') !== !!value) return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Whether a selection is local-only (marked with `@client`).
+ */
+export function isLocalSelection(selection: SelectionNode): boolean {
+  return (selection.directives || []).some(directive => directive.name.value === 'client');
+}
+
 export interface FragmentMap {
   [Key: string]: FragmentDefinitionNode;
 }
@@ -7,3 +7,19 @@ export function isScalar(value: any): value is scalar {
 export function isObject(value: any): value is JsonObject {
   return value !== null && typeof value === 'object' && !Array.isArray(value);
 }
+
+/**
+ * Serializes a value as JSON, with the keys of every object within it sorted;
+ * such that equal values always serialize identically.
+ */
+export function canonicalJson(value: any): string {
+  return JSON.stringify(value, (_key, nested) => {
+    if (!isObject(nested)) return nested;
+
+    const sorted = {};
+    for (const key of Object.keys(nested).sort()) {
+      sorted[key] = nested[key];
+    }
+    return sorted;
+  });
+}
@@ -67,6 +67,33 @@ export function hasNodeReference(
   return true;
 }
 
+/**
+ * Walks the outbound references of the nodes identified by `rootIds`,
+ * returning the ids of every node that is transitively reachable from them
+ * (including the roots themselves, if they exist).
+ */
+export function reachableNodeIds(
+  rootIds: Iterable<NodeId>,
+  getNodeSnapshot: (id: NodeId) => NodeSnapshot | undefined,
+): Set<NodeId> {
+  const reachable = new Set<NodeId>();
+  const queue = Array.from(rootIds);
+  while (queue.length) {
+    const nodeId = queue.pop()!;
+    if (reachable.has(nodeId)) continue;
+    const snapshot = getNodeSnapshot(nodeId);
+    if (!snapshot) continue;
+
+    reachable.add(nodeId);
+    if (!snapshot.outbound) continue;
+    for (const { id } of snapshot.outbound) {
+      queue.push(id);
+    }
+  }
+
+  return reachable;
+}
+
 /**
  * Return index of { id, path } reference in references array.
  * Otherwise, return -1.
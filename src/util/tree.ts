@@ -7,13 +7,15 @@
 import { // eslint-disable-line import/no-extraneous-dependencies, import/no-unresolved
   DocumentNode,
   FieldNode,
+  SelectionNode,
   SelectionSetNode,
 } from 'graphql';
 
-import { DynamicField, DynamicFieldMap } from '../DynamicField';
+import { DynamicField, DynamicFieldMap, isFieldIncluded, resolveDynamicField, TypeConditionMatcher } from '../DynamicField';
 import { JsonObject, JsonValue, PathPart } from '../primitive';
 
-import { fragmentMapForDocument, getOperationOrDie } from './ast';
+import { fragmentMapForDocument, getOperationOrDie, isSelectionIncluded } from './ast';
+import { isObject } from './primitive';
 
 /**
  * Represents a node (of all values at the same location in their trees), used
@@ -31,6 +33,8 @@ class PayloadWalkNode {
     public readonly depth: number,
     /** The key/index of this node, relative to its parent. */
     public readonly key?: PathPart,
+    /** The value of the payload containing this node, if any. */
+    public readonly parentPayload?: JsonValue,
   ) {}
 }
 
@@ -43,6 +47,7 @@ export type PayloadVisitor = (
   payloadValue: JsonValue,
   nodeValue: JsonValue | undefined,
   dynamicField: DynamicField | DynamicFieldMap | undefined,
+  parentPayload: JsonValue | undefined,
 ) => boolean;
 
 /**
@@ -57,6 +62,10 @@ export type PayloadVisitor = (
  * all values from `fieldMap` are walked, but they are only provided if a leaf
  * (`EntityType`) is reached.  References skip over arrays, so that they apply
  * to the values inside the (homogeneous) array.
+ *
+ * Fields selected differently by fragments on different types are resolved
+ * against the payload's __typename, via `typeConditionMatcher`.  Values of
+ * fields excluded by `@include` or `@skip` are not walked.
  */
 export function walkPayload(
   payload: JsonValue,
@@ -64,6 +73,7 @@ export function walkPayload(
   rootFieldMap: DynamicField | DynamicFieldMap | undefined,
   visitRoot: boolean,
   visitor: PayloadVisitor,
+  typeConditionMatcher?: TypeConditionMatcher,
 ) {
   // We perform a pretty standard depth-first traversal, with the addition of
   // tracking the current path at each node.
@@ -101,7 +111,7 @@ export function walkPayload(
         path.push(fieldName ? fieldName : key);
       }
 
-      const skipChildren = visitor(path, walkNode.payload, walkNode.node, walkNode.fieldMap);
+      const skipChildren = visitor(path, walkNode.payload, walkNode.node, walkNode.fieldMap, walkNode.parentPayload);
       if (skipChildren) continue;
     }
 
@@ -113,19 +123,30 @@ export function walkPayload(
         // Note that we DO NOT walk into `fieldMap` for array values; the field
         // map is blind to them, and continues to apply to all values contained
         // within the array.
-        stack.push(new PayloadWalkNode(get(walkNode.payload, index), get(walkNode.node, index), walkNode.fieldMap, newDepth, index));
+        stack.push(new PayloadWalkNode(
+          get(walkNode.payload, index),
+          get(walkNode.node, index),
+          walkNode.fieldMap,
+          newDepth,
+          index,
+          walkNode.payload,
+        ));
       }
     } else if (walkNode.payload !== null && typeof walkNode.payload === 'object') {
       const keys = Object.getOwnPropertyNames(walkNode.payload);
       const childMap = walkNode.fieldMap instanceof DynamicField ? walkNode.fieldMap.children : walkNode.fieldMap;
       for (let index = keys.length - 1; index >= 0; index--) {
         const childKey = keys[index];
+        const childField = resolveDynamicField(get(childMap, childKey), walkNode.payload, typeConditionMatcher);
+        // Skip values of fields excluded by @include or @skip.
+        if (!isFieldIncluded(childField)) continue;
         stack.push(new PayloadWalkNode(
           get(walkNode.payload, childKey),
           get(walkNode.node, childKey),
-          get(childMap, childKey),
+          childField,
           newDepth,
           childKey,
+          walkNode.payload,
         ));
       }
     }
@@ -133,33 +154,57 @@ export function walkPayload(
 }
 
 /**
- *
+ * Represents a selection set (and the value it applies to), used by the
+ * operation walk.
  */
 class OperationWalkNode {
   constructor(
     public readonly selectionSet: SelectionSetNode,
-    public readonly parent?: JsonValue,
+    public readonly parent: JsonValue | undefined,
+    /** The response keys and indexes leading to `parent`. */
+    public readonly path: PathPart[],
   ) {}
 }
 
 /**
+ * Called with each value visited by `walkOperation`, the fields selected on it,
+ * and its path (of response keys and indexes) from the root of the result.
+ *
  * Returning true indicates that the walk should STOP.
  */
-export type OperationVisitor = (parent: JsonValue | undefined, fields: FieldNode[]) => boolean;
+export type OperationVisitor = (parent: JsonValue | undefined, fields: FieldNode[], path: PathPart[]) => boolean;
 
 /**
+ * Configuration for `walkOperation`.
+ */
+export interface OperationWalkOptions {
+  /** If provided, fragments only apply to values satisfying their types. */
+  typeConditionMatcher?: TypeConditionMatcher;
+  /** Used to evaluate `@include` and `@skip` directives. */
+  variables?: JsonObject;
+}
+
+/**
+ * Walks a result (per the operation in `document`), visiting every value that
+ * has fields selected on it.
  *
+ * The walk does not descend past values that are missing from the result, nor
+ * into selections excluded by `@include` or `@skip`.
  */
-export function walkOperation(document: DocumentNode, result: JsonObject | undefined, visitor: OperationVisitor) {
+export function walkOperation(
+  document: DocumentNode,
+  result: JsonObject | undefined,
+  visitor: OperationVisitor,
+  { typeConditionMatcher, variables }: OperationWalkOptions = {},
+) {
   const operation = getOperationOrDie(document);
   const fragmentMap = fragmentMapForDocument(document);
 
-  // Perform the walk as a depth-first traversal; and unlike the payload walk,
-  // we don't bother tracking the path.
-  const stack = [new OperationWalkNode(operation.selectionSet, result)];
+  // Perform the walk as a depth-first traversal.
+  const stack = [new OperationWalkNode(operation.selectionSet, result, [])];
 
   while (stack.length) {
-    const { selectionSet, parent } = stack.pop()!;
+    const { selectionSet, parent, path } = stack.pop()!;
     // We consider null nodes to be skippable (and satisfy the walk).
     if (parent === null) continue;
 
@@ -167,20 +212,21 @@ export function walkOperation(document: DocumentNode, result: JsonObject | undef
     if (Array.isArray(parent)) {
       // Push in reverse purely for ergonomics: they'll be pulled off in order.
       for (let i = parent.length - 1; i >= 0; i--) {
-        stack.push(new OperationWalkNode(selectionSet, parent[i]));
+        stack.push(new OperationWalkNode(selectionSet, parent[i], [...path, i]));
       }
       continue;
     }
 
     const fields: FieldNode[] = [];
-    // TODO: Directives?
     for (const selection of selectionSet.selections) {
+      if (!isSelectionIncluded(selection, variables)) continue;
+
       // A simple field.
       if (selection.kind === 'Field') {
         fields.push(selection);
-        if (selection.selectionSet) {
-          const child = get(parent, selection.name.value);
-          stack.push(new OperationWalkNode(selection.selectionSet, child));
+        if (selection.selectionSet && parent !== undefined) {
+          const key = selection.alias ? selection.alias.value : selection.name.value;
+          stack.push(new OperationWalkNode(selection.selectionSet, get(parent, key), [...path, key]));
         }
 
       // Fragments are applied to the current value.
@@ -189,21 +235,46 @@ export function walkOperation(document: DocumentNode, result: JsonObject | undef
         if (!fragment) {
           throw new Error(`Expected fragment ${selection.name.value} to be defined`);
         }
-        stack.push(new OperationWalkNode(fragment.selectionSet, parent));
+        if (typeConditionMatcher && isObject(parent) && !typeConditionMatcher(fragment.typeCondition.name.value, parent)) {
+          continue;
+        }
+        stack.push(new OperationWalkNode(fragment.selectionSet, parent, path));
+
+      } else if (selection.kind === 'InlineFragment') {
+        const { typeCondition } = selection;
+        if (typeConditionMatcher && typeCondition && isObject(parent) && !typeConditionMatcher(typeCondition.name.value, parent)) {
+          continue;
+        }
+        stack.push(new OperationWalkNode(selection.selectionSet, parent, path));
 
-      // TODO: Inline fragments.
       } else {
-        throw new Error(`Unsupported GraphQL AST Node ${selection.kind}`);
+        const unknown: never = selection;
+        throw new Error(`Unsupported GraphQL AST Node ${(unknown as SelectionNode).kind}`);
       }
     }
 
     if (fields.length) {
-      const shouldStop = visitor(parent, fields);
+      const shouldStop = visitor(parent, fields, path);
       if (shouldStop) return;
     }
   }
 }
 
+/**
+ * Formats a path for humans, e.g. `viewer.friends[3].name`.
+ */
+export function formatPath(path: PathPart[]): string {
+  let formatted = '';
+  for (const part of path) {
+    if (typeof part === 'number') {
+      formatted += `[${part}]`;
+    } else {
+      formatted += formatted ? `.${part}` : part;
+    }
+  }
+  return formatted;
+}
+
 function get(value: any, key: PathPart) {
   // Remember: arrays are typeof 'object', too.
   return value !== null && typeof value === 'object' ? value[key] : undefined;
@@ -0,0 +1,92 @@
+import { Cache } from '../../../src/Cache';
+import { relayConnectionPolicy } from '../../../src/context';
+import { query, strictConfig } from '../../helpers';
+
+describe(`Cache`, () => {
+  describe(`connection edges`, () => {
+
+    const feedQuery = query(`query getFeed($after: String) {
+      feed(category: "news", first: 2, after: $after) {
+        edges { cursor node { id title } }
+        pageInfo { endCursor hasNextPage }
+      }
+    }`, { after: null });
+    const feed = { fieldName: 'feed', args: { category: 'news' } };
+
+    let cache: Cache;
+    beforeEach(() => {
+      cache = new Cache({
+        ...strictConfig,
+        fieldPolicies: {
+          Query: { feed: relayConnectionPolicy() },
+        },
+      });
+      cache.write(feedQuery, {
+        feed: {
+          edges: [
+            { cursor: 'c1', node: { id: 1, title: 'One' } },
+            { cursor: 'c2', node: { id: 2, title: 'Two' } },
+          ],
+          pageInfo: { endCursor: 'c2', hasNextPage: true },
+        },
+      });
+    });
+
+    function edges() {
+      return (cache.read(feedQuery).result as any).feed.edges;
+    }
+
+    it(`inserts edges at the end of connections`, () => {
+      cache.transaction((t) => {
+        expect(t.insertEdge(feed, { cursor: 'c3', node: { id: 3, title: 'Three' } })).to.eq(true);
+      });
+
+      expect(edges()).to.deep.eq([
+        { cursor: 'c1', node: { id: 1, title: 'One' } },
+        { cursor: 'c2', node: { id: 2, title: 'Two' } },
+        { cursor: 'c3', node: { id: 3, title: 'Three' } },
+      ]);
+      expect(cache.read(feedQuery).complete).to.eq(true);
+    });
+
+    it(`inserts edges at the start of connections, replacing edges to the same node`, () => {
+      cache.transaction((t) => {
+        t.insertEdge(feed, { cursor: 'c2', node: { id: 2, title: 'Two (edited)' } }, 'start');
+      });
+
+      expect(edges()).to.deep.eq([
+        { cursor: 'c2', node: { id: 2, title: 'Two (edited)' } },
+        { cursor: 'c1', node: { id: 1, title: 'One' } },
+      ]);
+    });
+
+    it(`removes edges by their node`, () => {
+      cache.transaction((t) => {
+        expect(t.removeEdge(feed, '1')).to.eq(true);
+      });
+
+      expect(edges()).to.deep.eq([
+        { cursor: 'c2', node: { id: 2, title: 'Two' } },
+      ]);
+    });
+
+    it(`ignores connections that aren't in the cache`, () => {
+      cache.transaction((t) => {
+        expect(t.removeEdge({ fieldName: 'feed', args: { category: 'sports' } }, '1')).to.eq(false);
+      });
+    });
+
+    it(`supports optimistic edits`, () => {
+      cache.transaction('insert', (t) => {
+        t.insertEdge(feed, { cursor: 'c3', node: { id: 3, title: 'Three' } });
+      });
+
+      expect((cache.read(feedQuery, true).result as any).feed.edges).to.have.length(3);
+      expect(edges()).to.have.length(2);
+
+      cache.rollback('insert');
+      expect((cache.read(feedQuery, true).result as any).feed.edges).to.have.length(2);
+    });
+
+  });
+});
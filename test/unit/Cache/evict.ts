@@ -0,0 +1,56 @@
+import { Cache } from '../../../src/Cache';
+import { StaticNodeId } from '../../../src/schema';
+import { query, strictConfig } from '../../helpers';
+
+const { QueryRoot: QueryRootId } = StaticNodeId;
+
+describe(`Cache`, () => {
+  describe(`evict`, () => {
+
+    const viewerQuery = query(`{
+      viewer { id name }
+    }`);
+
+    let cache: Cache;
+    beforeEach(() => {
+      cache = new Cache(strictConfig);
+      cache.write(viewerQuery, { viewer: { id: 1, name: 'Foo' } });
+    });
+
+    it(`removes the entity`, () => {
+      cache.evict('1');
+
+      expect(cache.getEntity('1')).to.eq(undefined);
+      expect(cache.getEntity(QueryRootId)).to.deep.eq({ viewer: null });
+    });
+
+    it(`notifies observers of affected queries`, () => {
+      const callback = jest.fn();
+      cache.watch(viewerQuery, callback);
+      callback.mockClear();
+
+      cache.evict('1');
+
+      expect(callback.mock.calls.length).to.eq(1);
+    });
+
+    it(`no longer considers an evicted root to be complete`, () => {
+      const fragment = query(`{ name }`, undefined, '1');
+      cache.write(fragment, { name: 'Foo' });
+      cache.evict('1');
+
+      expect(cache.read(fragment).complete).to.eq(false);
+    });
+
+    it(`rejects evictions within optimistic transactions`, () => {
+      const error = jest.fn();
+      cache = new Cache({ logger: { warn: jest.fn(), error } });
+      cache.write(viewerQuery, { viewer: { id: 1, name: 'Foo' } });
+
+      expect(cache.transaction('change', t => t.evict('1'))).to.eq(false);
+      expect(cache.getEntity('1')).to.deep.eq({ id: 1, name: 'Foo' });
+      expect(error.mock.calls.length).to.eq(1);
+    });
+
+  });
+});
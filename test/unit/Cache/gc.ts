@@ -0,0 +1,83 @@
+import { Cache } from '../../../src/Cache';
+import { StaticNodeId } from '../../../src/schema';
+import { query, strictConfig } from '../../helpers';
+
+const { QueryRoot: QueryRootId } = StaticNodeId;
+
+describe(`Cache`, () => {
+  describe(`gc`, () => {
+
+    const cyclicQuery = query(`{
+      viewer { id friend { id friend { id } } }
+    }`);
+    const clearQuery = query(`{ viewer { id } }`);
+    const detachedQuery = query(`{ name }`, undefined, 'detached');
+
+    function writeCycle(cache: Cache) {
+      cache.write(cyclicQuery, { viewer: { id: 1, friend: { id: 2, friend: { id: 1 } } } });
+      cache.write(clearQuery, { viewer: null });
+    }
+
+    it(`removes unreachable cycles`, () => {
+      const cache = new Cache(strictConfig);
+      writeCycle(cache);
+
+      expect(cache.gc()).to.have.members(['1', '2']);
+      expect(cache.getEntity('1')).to.eq(undefined);
+      expect(cache.getEntity('2')).to.eq(undefined);
+      expect(cache.getEntity(QueryRootId)).to.deep.eq({ viewer: null });
+    });
+
+    it(`keeps retained nodes`, () => {
+      const cache = new Cache(strictConfig);
+      cache.write(detachedQuery, { name: 'Foo' });
+      const release = cache.retain('detached');
+
+      expect(cache.gc()).to.deep.eq([]);
+      release();
+      expect(cache.gc()).to.deep.eq(['detached']);
+    });
+
+    it(`keeps the roots of observed queries`, () => {
+      const cache = new Cache(strictConfig);
+      cache.write(detachedQuery, { name: 'Foo' });
+      const unwatch = cache.watch(detachedQuery, () => {});
+
+      expect(cache.gc()).to.deep.eq([]);
+      unwatch();
+      expect(cache.gc()).to.deep.eq(['detached']);
+    });
+
+    it(`commits nothing (and notifies no one) when there is nothing to remove`, () => {
+      const cache = new Cache(strictConfig);
+      cache.write(clearQuery, { viewer: { id: 1 } });
+      const watcher = jest.fn();
+      const listener = jest.fn();
+      cache.watch(clearQuery, watcher);
+      cache.onChange(listener);
+      watcher.mockClear();
+      const { snapshot } = cache.inspect();
+
+      expect(cache.gc()).to.deep.eq([]);
+      expect(cache.inspect().snapshot).to.eq(snapshot);
+      expect(watcher.mock.calls.length).to.eq(0);
+      expect(listener.mock.calls.length).to.eq(0);
+    });
+
+    it(`can run automatically`, () => {
+      const cache = new Cache({ ...strictConfig, gcInterval: 2 });
+      writeCycle(cache);
+
+      expect(cache.getEntity('1')).to.eq(undefined);
+      expect(cache.getEntity('2')).to.eq(undefined);
+    });
+
+    it(`only runs automatically at the requested interval`, () => {
+      const cache = new Cache({ ...strictConfig, gcInterval: 3 });
+      writeCycle(cache);
+
+      expect(cache.getEntity('1')).to.not.eq(undefined);
+    });
+
+  });
+});
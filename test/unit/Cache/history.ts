@@ -0,0 +1,142 @@
+import { Cache } from '../../../src/Cache';
+import { query, strictConfig } from '../../helpers';
+
+describe(`Cache`, () => {
+  describe(`history`, () => {
+
+    const viewerQuery = query(`{
+      viewer { id name }
+    }`);
+    const otherQuery = query(`{
+      other { id name }
+    }`);
+
+    describe(`when disabled`, () => {
+
+      it(`has nothing to undo`, () => {
+        const cache = new Cache(strictConfig);
+        cache.write(viewerQuery, { viewer: { id: 1, name: 'Foo' } });
+
+        expect(cache.undo()).to.eq(false);
+        expect(cache.history()).to.deep.eq({ undo: [], redo: [] });
+      });
+
+    });
+
+    describe(`when enabled`, () => {
+
+      let cache: Cache;
+      beforeEach(() => {
+        cache = new Cache({ ...strictConfig, historySize: 2 });
+        cache.transaction({ label: 'first' }, t => t.write(viewerQuery, { viewer: { id: 1, name: 'Foo' } }));
+        cache.transaction({ label: 'second' }, t => t.write(viewerQuery, { viewer: { id: 1, name: 'Bar' } }));
+      });
+
+      it(`undoes transactions`, () => {
+        expect(cache.undo()).to.eq(true);
+        expect(cache.getEntity('1')).to.deep.eq({ id: 1, name: 'Foo' });
+
+        expect(cache.undo()).to.eq(true);
+        expect(cache.getEntity('1')).to.eq(undefined);
+
+        expect(cache.undo()).to.eq(false);
+      });
+
+      it(`redoes undone transactions`, () => {
+        cache.undo();
+        cache.undo();
+
+        expect(cache.redo()).to.eq(true);
+        expect(cache.getEntity('1')).to.deep.eq({ id: 1, name: 'Foo' });
+        expect(cache.redo()).to.eq(true);
+        expect(cache.getEntity('1')).to.deep.eq({ id: 1, name: 'Bar' });
+        expect(cache.redo()).to.eq(false);
+      });
+
+      it(`describes the undoable and redoable transactions`, () => {
+        expect(cache.history()).to.deep.eq({
+          undo: [{ label: 'first' }, { label: 'second' }],
+          redo: [],
+        });
+
+        cache.undo();
+        expect(cache.history()).to.deep.eq({
+          undo: [{ label: 'first' }],
+          redo: [{ label: 'second' }],
+        });
+      });
+
+      it(`retains only the configured number of versions`, () => {
+        cache.transaction({ label: 'third' }, t => t.write(viewerQuery, { viewer: { id: 1, name: 'Baz' } }));
+
+        expect(cache.history().undo).to.deep.eq([{ label: 'second' }, { label: 'third' }]);
+      });
+
+      it(`does not record transactions that changed nothing`, () => {
+        cache.transaction({ label: 'same' }, t => t.write(viewerQuery, { viewer: { id: 1, name: 'Bar' } }));
+
+        expect(cache.history().undo).to.deep.eq([{ label: 'first' }, { label: 'second' }]);
+        expect(cache.undo()).to.eq(true);
+        expect(cache.getEntity('1')).to.deep.eq({ id: 1, name: 'Foo' });
+      });
+
+      it(`drops redoable transactions on a new commit`, () => {
+        cache.undo();
+        cache.write(otherQuery, { other: { id: 2, name: 'Other' } });
+
+        expect(cache.history().redo).to.deep.eq([]);
+        expect(cache.redo()).to.eq(false);
+      });
+
+      it(`does not record optimistic updates, or their rollbacks`, () => {
+        cache.transaction({ changeId: 'change', label: 'optimistic' }, t => t.write(viewerQuery, { viewer: { id: 1, name: 'Opt' } }));
+        cache.rollback('change');
+        expect(cache.history().undo).to.deep.eq([{ label: 'first' }, { label: 'second' }]);
+
+        expect(cache.undo()).to.eq(true);
+        // The rolled back update should not be revived.
+        expect(cache.getEntity('1')).to.deep.eq({ id: 1, name: 'Foo' });
+      });
+
+      it(`replays pending optimistic updates on the restored version`, () => {
+        cache.transaction({ changeId: 'change' }, t => t.write(otherQuery, { other: { id: 2, name: 'Opt' } }));
+
+        expect(cache.undo()).to.eq(true);
+        expect(cache.getEntity('1')).to.deep.eq({ id: 1, name: 'Foo' });
+        expect(cache.getEntity('2')).to.deep.eq({ id: 2, name: 'Opt' });
+
+        expect(cache.redo()).to.eq(true);
+        expect(cache.getEntity('1')).to.deep.eq({ id: 1, name: 'Bar' });
+        expect(cache.getEntity('2')).to.deep.eq({ id: 2, name: 'Opt' });
+
+        cache.rollback('change');
+        expect(cache.getEntity('2')).to.eq(undefined);
+      });
+
+      it(`notifies observers of the nodes that changed`, () => {
+        cache.write(otherQuery, { other: { id: 2, name: 'Other' } });
+        cache.write(query(`{ name }`, undefined, '1'), { name: 'Baz' });
+
+        const viewerCallback = jest.fn(), otherCallback = jest.fn();
+        cache.watch(viewerQuery, viewerCallback);
+        cache.watch(query(`{ name }`, undefined, '2'), otherCallback);
+        viewerCallback.mockClear();
+        otherCallback.mockClear();
+
+        cache.undo();
+
+        expect(viewerCallback.mock.calls.length).to.eq(1);
+        expect(viewerCallback.mock.calls[0][0].result.viewer).to.deep.eq({ id: 1, name: 'Bar' });
+        expect(otherCallback.mock.calls.length).to.eq(0);
+      });
+
+      it(`forgets history on restore`, () => {
+        cache.restore(cache.extract());
+
+        expect(cache.history()).to.deep.eq({ undo: [], redo: [] });
+      });
+
+    });
+
+  });
+});
@@ -0,0 +1,90 @@
+import { Cache } from '../../../src/Cache';
+import { CacheMetrics } from '../../../src/context';
+import { query, strictConfig } from '../../helpers';
+
+describe(`Cache`, () => {
+  describe(`metrics`, () => {
+
+    const viewerQuery = query(`{
+      viewer {
+        id
+        name
+        friends(first: 1) { id }
+      }
+    }`);
+
+    it(`are not collected by default`, () => {
+      const cache = new Cache(strictConfig);
+      cache.write(viewerQuery, { viewer: { id: 1, name: 'Foo', friends: [] } });
+
+      expect(cache.getMetrics()).to.eq(undefined);
+    });
+
+    describe(`when enabled`, () => {
+
+      let cache: Cache, commits: CacheMetrics[];
+      beforeEach(() => {
+        commits = [];
+        cache = new Cache({ ...strictConfig, onCommitMetrics: metrics => commits.push(metrics) });
+        cache.write(viewerQuery, { viewer: { id: 1, name: 'Foo', friends: [{ id: 2 }] } });
+      });
+
+      it(`tracks the size of the graph`, () => {
+        // The root, viewer, friend and parameterized value.
+        expect(cache.getMetrics()!.graphSize).to.eq(4);
+      });
+
+      it(`tracks merged payloads`, () => {
+        const metrics = cache.getMetrics()!;
+        expect(metrics.commits).to.eq(1);
+        expect(metrics.payloadsMerged).to.eq(1);
+        expect(metrics.nodesEdited).to.eq(4);
+        expect(metrics.mergePayloadTime).to.be.at.least(0);
+      });
+
+      it(`tracks rebuilt and orphaned nodes`, () => {
+        cache.write(query(`{ viewer { id } }`), { viewer: { id: 3 } });
+
+        const metrics = cache.getMetrics()!;
+        // viewer (1), its parameterized value, and the friend (2).
+        expect(metrics.nodesOrphaned).to.eq(3);
+        expect(metrics.nodesRebuilt).to.be.greaterThan(0);
+      });
+
+      it(`tracks reads and read cache hits`, () => {
+        cache.read(viewerQuery);
+        cache.read(viewerQuery);
+
+        const metrics = cache.getMetrics()!;
+        expect(metrics.reads).to.eq(2);
+        expect(metrics.readCacheHits).to.eq(1);
+        expect(metrics.overlayTime).to.be.at.least(0);
+        expect(metrics.visitSelectionTime).to.be.at.least(0);
+      });
+
+      it(`tracks observer notifications`, () => {
+        cache.watch(viewerQuery, () => {});
+        cache.watch(query(`{ name }`, undefined, '2'), () => {});
+        cache.write(query(`{ name }`, undefined, '1'), { name: 'Bar' });
+
+        const metrics = cache.getMetrics()!;
+        expect(metrics.observerChecks).to.eq(2);
+        // Once each for the initial results, and once for the change.
+        expect(metrics.observerNotifications).to.eq(3);
+      });
+
+      it(`reports metrics per commit`, () => {
+        cache.watch(viewerQuery, () => {});
+        cache.write(query(`{ name }`, undefined, '1'), { name: 'Bar' });
+
+        expect(commits.length).to.eq(2);
+        expect(commits[1].commits).to.eq(1);
+        expect(commits[1].payloadsMerged).to.eq(1);
+        expect(commits[1].observerChecks).to.eq(1);
+        expect(commits[1].graphSize).to.eq(4);
+      });
+
+    });
+
+  });
+});
@@ -0,0 +1,141 @@
+import { Cache } from '../../../src/Cache';
+import { CacheContext } from '../../../src/context';
+import { query, strictConfig } from '../../helpers';
+
+describe(`Cache`, () => {
+  describe(`observer notifications`, () => {
+
+    const viewerQuery = query(`{
+      viewer { id name }
+    }`);
+    const otherQuery = query(`{
+      other { id name }
+    }`);
+
+    function createCache(notificationScheduler?: CacheContext.Configuration['notificationScheduler']) {
+      const cache = new Cache({ ...strictConfig, notificationScheduler });
+      cache.write(viewerQuery, { viewer: { id: 1, name: 'Foo' } });
+      cache.write(otherQuery, { other: { id: 2, name: 'Other' } });
+      return cache;
+    }
+
+    describe(`with the default scheduler`, () => {
+
+      let cache: Cache, callback: jest.Mock<any>;
+      beforeEach(() => {
+        cache = createCache();
+        callback = jest.fn();
+        cache.watch(viewerQuery, callback);
+        callback.mockClear();
+      });
+
+      it(`notifies synchronously, per commit`, () => {
+        cache.write(viewerQuery, { viewer: { id: 1, name: 'Bar' } });
+        cache.write(viewerQuery, { viewer: { id: 1, name: 'Baz' } });
+
+        expect(callback.mock.calls.length).to.eq(2);
+      });
+
+      it(`skips notifications when the result is unchanged`, () => {
+        cache.write(viewerQuery, { viewer: { id: 1, name: 'Foo' } });
+
+        expect(callback.mock.calls.length).to.eq(0);
+      });
+
+    });
+
+    describe(`with the microtask scheduler`, () => {
+
+      let cache: Cache, callback: jest.Mock<any>;
+      beforeEach(() => {
+        cache = createCache('microtask');
+        callback = jest.fn();
+        cache.watch(viewerQuery, callback);
+        callback.mockClear();
+      });
+
+      it(`defers notifications`, () => {
+        cache.write(viewerQuery, { viewer: { id: 1, name: 'Bar' } });
+
+        expect(callback.mock.calls.length).to.eq(0);
+      });
+
+      it(`coalesces commits into a single notification with the latest result`, async() => {
+        cache.write(viewerQuery, { viewer: { id: 1, name: 'Bar' } });
+        cache.write(otherQuery, { other: { id: 2, name: 'Changed' } });
+        cache.write(viewerQuery, { viewer: { id: 1, name: 'Baz' } });
+        await Promise.resolve();
+
+        expect(callback.mock.calls.length).to.eq(1);
+        expect(callback.mock.calls[0][0].result.viewer).to.deep.eq({ id: 1, name: 'Baz' });
+      });
+
+      it(`notifies again for subsequent batches`, async() => {
+        cache.write(viewerQuery, { viewer: { id: 1, name: 'Bar' } });
+        await Promise.resolve();
+        cache.write(viewerQuery, { viewer: { id: 1, name: 'Baz' } });
+        await Promise.resolve();
+
+        expect(callback.mock.calls.length).to.eq(2);
+      });
+
+      it(`doesn't notify observers removed before the batch is flushed`, async() => {
+        const otherCallback = jest.fn();
+        const unwatch = cache.watch(viewerQuery, otherCallback);
+        otherCallback.mockClear();
+
+        cache.write(viewerQuery, { viewer: { id: 1, name: 'Bar' } });
+        unwatch();
+        await Promise.resolve();
+
+        expect(otherCallback.mock.calls.length).to.eq(0);
+        expect(callback.mock.calls.length).to.eq(1);
+      });
+
+      it(`reports errors thrown by observers, and still notifies the rest`, async() => {
+        const error = jest.fn();
+        const failingCache = new Cache({ logger: { warn: jest.fn(), error }, notificationScheduler: 'microtask' });
+        failingCache.write(viewerQuery, { viewer: { id: 1, name: 'Foo' } });
+        const failingCallback = jest.fn();
+        const healthyCallback = jest.fn();
+        failingCache.watch(viewerQuery, failingCallback);
+        failingCache.watch(viewerQuery, healthyCallback);
+        failingCallback.mockImplementation(() => {
+          throw new Error('watcher failed');
+        });
+        healthyCallback.mockClear();
+
+        failingCache.write(viewerQuery, { viewer: { id: 1, name: 'Bar' } });
+        await Promise.resolve();
+
+        expect(healthyCallback.mock.calls.length).to.eq(1);
+        expect(error.mock.calls.length).to.eq(1);
+        expect(error.mock.calls[0][1].message).to.eq('watcher failed');
+      });
+
+    });
+
+    describe(`with a custom scheduler`, () => {
+
+      it(`notifies when the scheduler flushes`, () => {
+        const flushes: (() => void)[] = [];
+        const cache = createCache(flush => flushes.push(flush));
+        const callback = jest.fn();
+        cache.watch(viewerQuery, callback);
+        callback.mockClear();
+        flushes.splice(0).forEach(flush => flush());
+
+        cache.write(viewerQuery, { viewer: { id: 1, name: 'Bar' } });
+        cache.write(viewerQuery, { viewer: { id: 1, name: 'Baz' } });
+        expect(flushes.length).to.eq(1);
+        expect(callback.mock.calls.length).to.eq(0);
+
+        flushes[0]();
+        expect(callback.mock.calls.length).to.eq(1);
+        expect(callback.mock.calls[0][0].result.viewer).to.deep.eq({ id: 1, name: 'Baz' });
+      });
+
+    });
+
+  });
+});
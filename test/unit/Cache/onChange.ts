@@ -0,0 +1,38 @@
+import { Cache } from '../../../src/Cache';
+import { StaticNodeId } from '../../../src/schema';
+import { query, strictConfig } from '../../helpers';
+
+const { QueryRoot: QueryRootId } = StaticNodeId;
+
+describe(`Cache`, () => {
+  describe(`onChange`, () => {
+
+    const viewerQuery = query(`{
+      viewer { id name }
+    }`);
+
+    let cache: Cache;
+    beforeEach(() => {
+      cache = new Cache(strictConfig);
+    });
+
+    it(`is called with the edited node ids after each commit`, () => {
+      const listener = jest.fn();
+      cache.onChange(listener);
+      cache.write(viewerQuery, { viewer: { id: 1, name: 'Foo' } });
+
+      expect(listener.mock.calls.length).to.eq(1);
+      expect(Array.from(listener.mock.calls[0][0])).to.have.members([QueryRootId, '1']);
+    });
+
+    it(`is no longer called once unregistered`, () => {
+      const listener = jest.fn();
+      const unsubscribe = cache.onChange(listener);
+      unsubscribe();
+      cache.write(viewerQuery, { viewer: { id: 1, name: 'Foo' } });
+
+      expect(listener.mock.calls.length).to.eq(0);
+    });
+
+  });
+});
@@ -0,0 +1,46 @@
+import { Cache } from '../../../src/Cache';
+import { query, strictConfig } from '../../helpers';
+
+describe(`Cache`, () => {
+  describe(`optimistic updates`, () => {
+
+    const viewerQuery = query(`{
+      viewer { id name }
+    }`);
+    const otherQuery = query(`{
+      other { id name }
+    }`);
+
+    let cache: Cache;
+    beforeEach(() => {
+      cache = new Cache(strictConfig);
+      cache.write(viewerQuery, { viewer: { id: 1, name: 'Foo' } });
+      cache.write(otherQuery, { other: { id: 2, name: 'Other' } });
+    });
+
+    it(`layers each update on top of earlier ones, rather than replacing them with the baseline`, () => {
+      cache.transaction('one', t => t.write(viewerQuery, { viewer: { id: 1, name: 'One' } }));
+      cache.transaction('two', t => t.write(otherQuery, { other: { id: 2, name: 'Two' } }));
+
+      expect(cache.read(viewerQuery, true).result).to.deep.include({ viewer: { id: 1, name: 'One' } });
+      expect(cache.read(otherQuery, true).result).to.deep.include({ other: { id: 2, name: 'Two' } });
+    });
+
+    it(`rolls back only the given update, rather than keeping only it`, () => {
+      cache.transaction('one', t => t.write(viewerQuery, { viewer: { id: 1, name: 'One' } }));
+      cache.transaction('two', t => t.write(otherQuery, { other: { id: 2, name: 'Two' } }));
+      cache.rollback('one');
+
+      expect(cache.read(viewerQuery, true).result).to.deep.include({ viewer: { id: 1, name: 'Foo' } });
+      expect(cache.read(otherQuery, true).result).to.deep.include({ other: { id: 2, name: 'Two' } });
+    });
+
+    it(`rebuilds the optimistic state without the rolled back update`, () => {
+      cache.transaction('one', t => t.write(viewerQuery, { viewer: { id: 1, name: 'One' } }));
+      cache.rollback('one');
+
+      expect(cache.read(viewerQuery, true).result).to.deep.include({ viewer: { id: 1, name: 'Foo' } });
+    });
+
+  });
+});
@@ -0,0 +1,51 @@
+import { Cache } from '../../../src/Cache';
+import { query, strictConfig } from '../../helpers';
+
+describe(`Cache`, () => {
+  describe(`extract and restore`, () => {
+
+    const viewerQuery = query(`{
+      viewer { id name }
+    }`);
+
+    let source: Cache;
+    beforeEach(() => {
+      source = new Cache(strictConfig);
+      source.write(viewerQuery, { viewer: { id: 1, name: 'Foo' } });
+    });
+
+    it(`transfers data between caches`, () => {
+      const cache = new Cache(strictConfig);
+      cache.restore(JSON.parse(JSON.stringify(source.extract())));
+
+      const { result, complete } = cache.read(viewerQuery);
+      expect(complete).to.eq(true);
+      expect(result).to.deep.eq({ viewer: { id: 1, name: 'Foo' } });
+    });
+
+    it(`accepts initial state at construction`, () => {
+      const cache = new Cache(strictConfig, source.extract());
+
+      expect(cache.read(viewerQuery).result).to.deep.eq({ viewer: { id: 1, name: 'Foo' } });
+    });
+
+    it(`notifies observers`, () => {
+      const cache = new Cache(strictConfig);
+      const callback = jest.fn();
+      cache.watch(viewerQuery, callback);
+      callback.mockClear();
+
+      cache.restore(source.extract());
+
+      expect(callback.mock.calls.length).to.eq(1);
+    });
+
+    it(`excludes optimistic updates by default`, () => {
+      source.transaction('change', t => t.write(viewerQuery, { viewer: { id: 1, name: 'Bar' } }));
+
+      expect(source.extract().nodes['1'].node).to.deep.eq({ id: 1, name: 'Foo' });
+      expect(source.extract(true).nodes['1'].node).to.deep.eq({ id: 1, name: 'Bar' });
+    });
+
+  });
+});
@@ -60,5 +60,171 @@ describe(`Cache`, () => {
       expect(error.mock.calls[0]).to.include(exception);
     });
 
+    describe(`with diff requested`, () => {
+
+      it(`returns the changes made by the transaction`, () => {
+        cache.write(simpleQuery, { foo: { bar: 1, baz: 'hi' } });
+        const diff = cache.transaction({ diff: true }, (transaction) => {
+          transaction.write(simpleQuery, { foo: { bar: 2, baz: 'hi' } });
+        });
+
+        expect(diff).to.deep.eq({
+          added: [],
+          removed: [],
+          changed: [{
+            id: QueryRootId,
+            fields: [{ path: ['foo', 'bar'], oldValue: 1, newValue: 2 }],
+            inbound: { added: [], removed: [] },
+            outbound: { added: [], removed: [] },
+          }],
+        });
+      });
+
+      it(`returns optimistic changes`, () => {
+        const diff = cache.transaction({ changeId: 'change', diff: true }, (transaction) => {
+          transaction.write(simpleQuery, { foo: { bar: 1, baz: 'hi' } });
+        });
+
+        expect(diff!.added).to.deep.eq([QueryRootId]);
+      });
+
+      it(`returns undefined on error`, () => {
+        const diff = cache.transaction({ diff: true }, () => {
+          throw new Error(`bewm`);
+        });
+
+        expect(diff).to.eq(undefined);
+      });
+
+    });
+
+    describe(`savepoints`, () => {
+
+      it(`discards edits made after the savepoint`, () => {
+        cache.transaction((transaction) => {
+          transaction.write(simpleQuery, { foo: { bar: 1, baz: 'hi' } });
+          const savepoint = transaction.savepoint();
+          transaction.write(simpleQuery, { foo: { bar: 2, baz: 'bye' } });
+          transaction.rollbackTo(savepoint);
+        });
+
+        expect(cache.getEntity(QueryRootId)).to.deep.eq({
+          foo: { bar: 1, baz: 'hi' },
+        });
+      });
+
+      it(`only reports nodes edited before the savepoint`, () => {
+        const otherQuery = query(`{ other { id } }`);
+        cache.transaction((transaction) => {
+          const savepoint = transaction.savepoint();
+          transaction.write(otherQuery, { other: { id: 1 } });
+          transaction.rollbackTo(savepoint);
+
+          const { editedNodeIds, writtenQueries } = transaction.commit();
+          expect(editedNodeIds.size).to.eq(0);
+          expect(writtenQueries.size).to.eq(0);
+        });
+      });
+
+      it(`discards optimistic edits made after the savepoint`, () => {
+        cache.transaction('change', (transaction) => {
+          transaction.write(simpleQuery, { foo: { bar: 1, baz: 'hi' } });
+          const savepoint = transaction.savepoint();
+          transaction.write(simpleQuery, { foo: { bar: 2, baz: 'bye' } });
+          transaction.rollbackTo(savepoint);
+        });
+        cache.write(query(`{ other }`), { other: 1 });
+
+        expect(cache.getEntity(QueryRootId)).to.deep.eq({
+          foo: { bar: 1, baz: 'hi' },
+          other: 1,
+        });
+      });
+
+      it(`rejects savepoints from other transactions`, () => {
+        cache.transaction((outer) => {
+          const savepoint = outer.savepoint();
+          outer.transaction((inner) => {
+            inner.rollbackTo(savepoint);
+          });
+        });
+
+        expect(error.mock.calls.length).to.eq(1);
+      });
+
+    });
+
+    describe(`nested transactions`, () => {
+
+      it(`commits nested edits with the parent`, () => {
+        cache.transaction((transaction) => {
+          expect(transaction.transaction((nested) => {
+            nested.write(simpleQuery, { foo: { bar: 1, baz: 'hi' } });
+          })).to.eq(true);
+          expect(cache.getEntity(QueryRootId)).to.eq(undefined);
+        });
+
+        expect(cache.getEntity(QueryRootId)).to.deep.eq({
+          foo: { bar: 1, baz: 'hi' },
+        });
+      });
+
+      it(`rolls back a failed nested transaction without aborting the parent`, () => {
+        cache.transaction((transaction) => {
+          transaction.write(simpleQuery, { foo: { bar: 1, baz: 'hi' } });
+          expect(transaction.transaction((nested) => {
+            nested.write(simpleQuery, { foo: { bar: 2, baz: 'bye' } });
+            throw new Error(`bewm`);
+          })).to.eq(false);
+        });
+
+        expect(cache.getEntity(QueryRootId)).to.deep.eq({
+          foo: { bar: 1, baz: 'hi' },
+        });
+        expect(error.mock.calls.length).to.eq(1);
+      });
+
+      it(`sees the parent's edits`, () => {
+        cache.transaction((transaction) => {
+          transaction.write(simpleQuery, { foo: { bar: 1, baz: 'hi' } });
+          transaction.transaction((nested) => {
+            expect(nested.read(simpleQuery).result).to.deep.eq({ foo: { bar: 1, baz: 'hi' } });
+          });
+        });
+      });
+
+      it(`tracks edited nodes and written queries per level`, () => {
+        const otherQuery = query(`{ other { id } }`);
+        cache.transaction((transaction) => {
+          transaction.transaction((nested) => {
+            nested.write(otherQuery, { other: { id: 1 } });
+            throw new Error(`bewm`);
+          });
+          transaction.transaction((nested) => {
+            nested.write(simpleQuery, { foo: { bar: 1, baz: 'hi' } });
+          });
+
+          const { editedNodeIds, writtenQueries } = transaction.commit();
+          expect(Array.from(editedNodeIds)).to.have.members([QueryRootId]);
+          expect(writtenQueries.size).to.eq(1);
+        });
+      });
+
+      it(`records nested edits within optimistic updates`, () => {
+        cache.transaction('change', (transaction) => {
+          transaction.transaction((nested) => {
+            nested.write(simpleQuery, { foo: { bar: 1, baz: 'hi' } });
+          });
+        });
+        cache.write(query(`{ other }`), { other: 1 });
+
+        expect(cache.getEntity(QueryRootId)).to.deep.eq({
+          foo: { bar: 1, baz: 'hi' },
+          other: 1,
+        });
+      });
+
+    });
+
   });
 });
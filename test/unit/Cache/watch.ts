@@ -0,0 +1,57 @@
+import { Cache } from '../../../src/Cache';
+import { query, strictConfig } from '../../helpers';
+
+describe(`Cache`, () => {
+  describe(`watch`, () => {
+
+    const viewerQuery = query(`{
+      viewer { id name }
+    }`);
+    const otherQuery = query(`{
+      other { id name }
+    }`);
+
+    let cache: Cache, callback: jest.Mock<any>;
+    beforeEach(() => {
+      cache = new Cache(strictConfig);
+      cache.write(viewerQuery, { viewer: { id: 1, name: 'Foo' } });
+      cache.write(otherQuery, { other: { id: 2, name: 'Other' } });
+      callback = jest.fn();
+      cache.watch(viewerQuery, callback);
+      callback.mockClear();
+    });
+
+    it(`only notifies observers of queries that touch edited nodes`, () => {
+      cache.write(query(`{ name }`, undefined, '2'), { name: 'Changed' });
+      expect(callback.mock.calls.length).to.eq(0);
+
+      cache.write(query(`{ name }`, undefined, '1'), { name: 'Bar' });
+      expect(callback.mock.calls.length).to.eq(1);
+    });
+
+    it(`notifies observers of optimistic updates`, () => {
+      cache.transaction('change', t => t.write(viewerQuery, { viewer: { id: 1, name: 'Bar' } }));
+
+      expect(callback.mock.calls.length).to.eq(1);
+      expect(callback.mock.calls[0][0].result.viewer).to.deep.eq({ id: 1, name: 'Bar' });
+    });
+
+    it(`notifies observers when an optimistic update is rolled back`, () => {
+      cache.transaction('change', t => t.write(viewerQuery, { viewer: { id: 1, name: 'Bar' } }));
+      cache.rollback('change');
+
+      expect(callback.mock.calls.length).to.eq(2);
+      expect(callback.mock.calls[1][0].result.viewer).to.deep.eq({ id: 1, name: 'Foo' });
+    });
+
+    it(`retains other optimistic updates when one is rolled back`, () => {
+      cache.transaction('one', t => t.write(viewerQuery, { viewer: { id: 1, name: 'One' } }));
+      cache.transaction('two', t => t.write(otherQuery, { other: { id: 2, name: 'Two' } }));
+      cache.rollback('two');
+
+      expect(cache.read(viewerQuery, true).result).to.deep.include({ viewer: { id: 1, name: 'One' } });
+      expect(cache.read(otherQuery, true).result).to.deep.include({ other: { id: 2, name: 'Other' } });
+    });
+
+  });
+});
@@ -0,0 +1,65 @@
+import { Cache } from '../../../src/Cache';
+import { query, strictConfig } from '../../helpers';
+
+describe(`Cache`, () => {
+  describe(`watchQuery`, () => {
+
+    const viewerQuery = query(`{
+      viewer { id name }
+    }`);
+
+    let cache: Cache;
+    beforeEach(() => {
+      cache = new Cache(strictConfig);
+      cache.write(viewerQuery, { viewer: { id: 1, name: 'Foo' } });
+    });
+
+    it(`emits the current result on subscription`, () => {
+      const next = jest.fn();
+      cache.watchQuery(viewerQuery).subscribe(next);
+
+      expect(next.mock.calls.length).to.eq(1);
+      const { result, complete } = next.mock.calls[0][0];
+      expect(result).to.deep.eq({ viewer: { id: 1, name: 'Foo' } });
+      expect(complete).to.eq(true);
+    });
+
+    it(`emits only the result and completeness`, () => {
+      const next = jest.fn();
+      cache.watchQuery(viewerQuery).subscribe(next);
+
+      expect(Object.keys(next.mock.calls[0][0])).to.have.members(['result', 'complete']);
+    });
+
+    it(`emits subsequent changes`, () => {
+      const next = jest.fn();
+      cache.watchQuery(viewerQuery).subscribe({ next });
+      cache.write(viewerQuery, { viewer: { id: 1, name: 'Bar' } });
+
+      expect(next.mock.calls.length).to.eq(2);
+      expect(next.mock.calls[1][0].result).to.deep.eq({ viewer: { id: 1, name: 'Bar' } });
+    });
+
+    it(`stops emitting once unsubscribed`, () => {
+      const next = jest.fn();
+      const subscription = cache.watchQuery(viewerQuery).subscribe(next);
+      subscription.unsubscribe();
+      cache.write(viewerQuery, { viewer: { id: 1, name: 'Bar' } });
+
+      expect(next.mock.calls.length).to.eq(1);
+    });
+
+    it(`supports multiple independent subscriptions`, () => {
+      const observable = cache.watchQuery(viewerQuery);
+      const first = jest.fn(), second = jest.fn();
+      const subscription = observable.subscribe(first);
+      observable.subscribe(second);
+      subscription.unsubscribe();
+      cache.write(viewerQuery, { viewer: { id: 1, name: 'Bar' } });
+
+      expect(first.mock.calls.length).to.eq(1);
+      expect(second.mock.calls.length).to.eq(2);
+    });
+
+  });
+});
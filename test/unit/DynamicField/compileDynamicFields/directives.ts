@@ -0,0 +1,115 @@
+import { DocumentNode } from 'graphql'; // eslint-disable-line import/no-extraneous-dependencies, import/no-unresolved
+import gql from 'graphql-tag';
+
+import { compileDynamicFields, DynamicField, expandVariables, isFieldIncluded, VariableArgument } from '../../../../src/DynamicField';
+import { fragmentMapForDocument, getOperationOrDie } from '../../../../src/util';
+
+describe(`DynamicField`, () => {
+  describe(`compileDynamicFields`, () => {
+    function compileDynamicFieldsForOperation(document: DocumentNode) {
+      const operation = getOperationOrDie(document);
+      const fragmentMap = fragmentMapForDocument(document);
+      return compileDynamicFields(fragmentMap, operation.selectionSet);
+    }
+
+    describe(`with @include and @skip`, () => {
+
+      it(`records the conditions of fields, and their variables`, () => {
+        const map = compileDynamicFieldsForOperation(gql`query getUser($withName: Boolean!) {
+          user {
+            name @include(if: $withName)
+            email @skip(if: true)
+          }
+        }`);
+        expect(map).to.deep.eq({
+          fieldMap: {
+            user: {
+              name: new DynamicField(undefined, undefined, undefined, [
+                [{ include: true, value: new VariableArgument('withName') }],
+              ]),
+              email: new DynamicField(undefined, undefined, undefined, [
+                [{ include: false, value: true }],
+              ]),
+            },
+          },
+          variables: new Set(['withName']),
+        });
+      });
+
+      it(`applies the conditions of fragments to their fields`, () => {
+        const map = compileDynamicFieldsForOperation(gql`query getUser($withName: Boolean!) {
+          user {
+            ... on User @include(if: $withName) { name }
+          }
+        }`);
+        expect(map).to.deep.eq({
+          fieldMap: {
+            user: {
+              name: new DynamicField(undefined, undefined, undefined, [
+                [{ include: true, value: new VariableArgument('withName') }],
+              ]),
+            },
+          },
+          variables: new Set(['withName']),
+        });
+      });
+
+      it(`considers fields that are also selected unconditionally to be unconditional`, () => {
+        const map = compileDynamicFieldsForOperation(gql`query getUser($withName: Boolean!) {
+          user {
+            name @include(if: $withName)
+            name
+          }
+        }`);
+        expect(map).to.deep.eq({ fieldMap: undefined, variables: new Set(['withName']) });
+      });
+
+      it(`evaluates conditions once variables are expanded`, () => {
+        const { fieldMap } = compileDynamicFieldsForOperation(gql`query getUser($withName: Boolean!, $withEmail: Boolean!) {
+          user {
+            name @include(if: $withName)
+            email @skip(if: $withEmail)
+          }
+        }`);
+        const expanded = expandVariables(fieldMap, { withName: false, withEmail: false }) as any;
+        expect(isFieldIncluded(expanded.user.name)).to.eq(false);
+        expect(isFieldIncluded(expanded.user.email)).to.eq(true);
+      });
+
+    });
+
+    describe(`with @client`, () => {
+
+      it(`marks local-only fields`, () => {
+        const map = compileDynamicFieldsForOperation(gql`{
+          user {
+            name
+            isSelected @client
+          }
+        }`);
+        expect(map).to.deep.eq({
+          fieldMap: {
+            user: {
+              isSelected: new DynamicField(undefined, undefined, undefined, undefined, true),
+            },
+          },
+          variables: new Set(),
+        });
+      });
+
+      it(`retains the other dynamic features of local-only fields`, () => {
+        const map = compileDynamicFieldsForOperation(gql`{
+          selected: isSelected(scope: "list") @client
+        }`);
+        expect(map).to.deep.eq({
+          fieldMap: {
+            selected: new DynamicField({ scope: 'list' }, 'isSelected', undefined, undefined, true),
+          },
+          variables: new Set(),
+        });
+      });
+
+    });
+
+  });
+});
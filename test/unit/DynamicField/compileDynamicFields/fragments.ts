@@ -0,0 +1,116 @@
+import { DocumentNode } from 'graphql'; // eslint-disable-line import/no-extraneous-dependencies, import/no-unresolved
+import gql from 'graphql-tag';
+
+import { compileDynamicFields, DynamicField, DynamicFieldVariants, VariableArgument } from '../../../../src/DynamicField';
+import { fragmentMapForDocument, getOperationOrDie } from '../../../../src/util';
+
+describe(`DynamicField`, () => {
+  describe(`compileDynamicFields`, () => {
+    function compileDynamicFieldsForOperation(document: DocumentNode) {
+      const operation = getOperationOrDie(document);
+      const fragmentMap = fragmentMapForDocument(document);
+      return compileDynamicFields(fragmentMap, operation.selectionSet);
+    }
+
+    describe(`with fragments`, () => {
+
+      it(`includes dynamic fields within inline fragments`, () => {
+        const map = compileDynamicFieldsForOperation(gql`query getUser($count: Int) {
+          viewer {
+            ... on User {
+              posts(first: $count) { title }
+              handle: name
+            }
+          }
+        }`);
+        expect(map).to.deep.eq({
+          fieldMap: {
+            viewer: {
+              posts: new DynamicField({ first: new VariableArgument('count') }),
+              handle: new DynamicField(undefined, 'name'),
+            },
+          },
+          variables: new Set(['count']),
+        });
+      });
+
+      it(`merges fields selected by both a field and a fragment`, () => {
+        const map = compileDynamicFieldsForOperation(gql`
+          query getUser {
+            viewer {
+              friends(first: 2) { id }
+              ... on User {
+                friends(first: 2) {
+                  ... on User { avatar(size: 10) }
+                }
+              }
+              ...viewerFields
+            }
+          }
+
+          fragment viewerFields on User {
+            friends(first: 2) { handle: name }
+          }
+        `);
+        expect(map).to.deep.eq({
+          fieldMap: {
+            viewer: {
+              friends: new DynamicField({ first: 2 }, undefined, {
+                avatar: new DynamicField({ size: 10 }),
+                handle: new DynamicField(undefined, 'name'),
+              }),
+            },
+          },
+          variables: new Set(),
+        });
+      });
+
+      it(`keeps conflicting selections on different types apart`, () => {
+        const map = compileDynamicFieldsForOperation(gql`
+          query getMedia {
+            media {
+              ... on Photo { url }
+              ... on Video { url: streamUrl }
+              ...audioFields
+            }
+          }
+
+          fragment audioFields on Audio {
+            url: fileUrl(format: "mp3")
+          }
+        `);
+        expect(map).to.deep.eq({
+          fieldMap: {
+            media: {
+              url: new DynamicFieldVariants(undefined, {
+                Photo: undefined,
+                Video: new DynamicField(undefined, 'streamUrl'),
+                Audio: new DynamicField({ format: 'mp3' }, 'fileUrl'),
+              }),
+            },
+          },
+          variables: new Set(),
+        });
+      });
+
+      it(`merges equivalent selections on different types`, () => {
+        const map = compileDynamicFieldsForOperation(gql`{
+          media {
+            ... on Photo { thumbnail(size: 10) { url } }
+            ... on Video { thumbnail(size: 10) { width } }
+          }
+        }`);
+        expect(map).to.deep.eq({
+          fieldMap: {
+            media: {
+              thumbnail: new DynamicField({ size: 10 }),
+            },
+          },
+          variables: new Set(),
+        });
+      });
+
+    });
+
+  });
+});
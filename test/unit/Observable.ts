@@ -0,0 +1,116 @@
+import { Observable, SubscriptionObserver } from '../../src/Observable';
+
+describe(`Observable`, () => {
+
+  let observer: SubscriptionObserver<number>, teardown: jest.Mock<any>, observable: Observable<number>;
+  beforeEach(() => {
+    teardown = jest.fn();
+    observable = new Observable<number>((subscriptionObserver) => {
+      observer = subscriptionObserver;
+      return teardown;
+    });
+  });
+
+  it(`delivers values to an observer`, () => {
+    const next = jest.fn();
+    observable.subscribe({ next });
+    observer.next(1);
+    observer.next(2);
+
+    expect(next.mock.calls).to.deep.eq([[1], [2]]);
+  });
+
+  it(`delivers values to callbacks`, () => {
+    const next = jest.fn();
+    observable.subscribe(next);
+    observer.next(1);
+
+    expect(next.mock.calls).to.deep.eq([[1]]);
+  });
+
+  it(`tears down on unsubscribe`, () => {
+    const next = jest.fn();
+    const subscription = observable.subscribe(next);
+    subscription.unsubscribe();
+    observer.next(1);
+
+    expect(subscription.closed).to.eq(true);
+    expect(teardown.mock.calls.length).to.eq(1);
+    expect(next.mock.calls.length).to.eq(0);
+  });
+
+  it(`tears down on complete`, () => {
+    const next = jest.fn(), complete = jest.fn();
+    const subscription = observable.subscribe({ next, complete });
+    observer.complete();
+    observer.next(1);
+
+    expect(subscription.closed).to.eq(true);
+    expect(complete.mock.calls.length).to.eq(1);
+    expect(teardown.mock.calls.length).to.eq(1);
+    expect(next.mock.calls.length).to.eq(0);
+  });
+
+  it(`tears down on error`, () => {
+    const error = jest.fn();
+    const exception = new Error(`bewm`);
+    observable.subscribe({ error });
+    observer.error(exception);
+    observer.error(exception);
+
+    expect(error.mock.calls).to.deep.eq([[exception]]);
+    expect(teardown.mock.calls.length).to.eq(1);
+  });
+
+  it(`delivers errors thrown by the subscriber`, () => {
+    const error = jest.fn();
+    const exception = new Error(`bewm`);
+    new Observable(() => {
+      throw exception;
+    }).subscribe({ error });
+
+    expect(error.mock.calls).to.deep.eq([[exception]]);
+  });
+
+  it(`tears down immediately when closed during subscription`, () => {
+    const innerTeardown = jest.fn();
+    const subscription = new Observable((subscriptionObserver) => {
+      subscriptionObserver.complete();
+      return innerTeardown;
+    }).subscribe({});
+
+    expect(subscription.closed).to.eq(true);
+    expect(innerTeardown.mock.calls.length).to.eq(1);
+  });
+
+  it(`exposes itself for interop`, () => {
+    expect((observable as any)['@@observable']()).to.eq(observable);
+  });
+
+  it(`exposes itself via a Symbol.observable polyfilled before it was loaded`, () => {
+    Object.defineProperty(Symbol, 'observable', { value: Symbol('observable'), configurable: true });
+    try {
+      jest.resetModules();
+      const { Observable: PolyfilledObservable } = require('../../src/Observable');
+      const polyfilled = new PolyfilledObservable(() => undefined);
+      expect(polyfilled[Symbol.observable!]()).to.eq(polyfilled);
+    } finally {
+      delete (Symbol as any).observable;
+    }
+  });
+
+  it(`reports errors asynchronously when the observer has no error callback`, () => {
+    jest.useFakeTimers();
+    try {
+      const exception = new Error('bad');
+      observable.subscribe({});
+
+      expect(() => observer.error(exception)).not.to.throw();
+      expect(teardown.mock.calls.length).to.eq(1);
+      expect(() => jest.runAllTimers()).to.throw(exception);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+});
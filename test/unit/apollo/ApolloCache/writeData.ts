@@ -0,0 +1,52 @@
+import { ApolloCache } from '../../../../src/apollo';
+import { query, strictConfig } from '../../../helpers';
+
+describe(`ApolloCache`, () => {
+  describe(`writeData`, () => {
+
+    const localQuery = query(`{
+      isLoggedIn @client
+      user { id name selected @client }
+    }`);
+
+    let cache: ApolloCache;
+    beforeEach(() => {
+      cache = new ApolloCache(strictConfig);
+    });
+
+    it(`writes data without a query`, () => {
+      cache.writeData({ data: { isLoggedIn: true, user: { id: 1, name: 'Foo', selected: false } } });
+
+      expect(cache.read({ query: localQuery.document, variables: {}, optimistic: false })).to.deep.eq({
+        isLoggedIn: true,
+        user: { id: 1, name: 'Foo', selected: false },
+      });
+    });
+
+    it(`writes data to a specific node`, () => {
+      cache.writeData({ data: { isLoggedIn: false, user: { id: 1, name: 'Foo', selected: false } } });
+      cache.writeData({ id: '1', data: { selected: true } });
+
+      const result = cache.read({ query: localQuery.document, variables: {}, optimistic: false });
+      expect(result.user).to.deep.eq({ id: 1, name: 'Foo', selected: true });
+    });
+
+    it(`writes the fields of every object within arrays`, () => {
+      cache.writeData({ data: { todos: [{ id: 'a', done: true }, { id: 'b', text: 'B' }] } });
+
+      expect(cache.extract().nodes['b'].node).to.deep.eq({ id: 'b', text: 'B' });
+    });
+
+    it(`notifies watchers of local fields`, () => {
+      cache.writeData({ data: { isLoggedIn: false, user: { id: 1, name: 'Foo', selected: false } } });
+      const callback = jest.fn();
+      cache.watch({ query: localQuery.document, variables: {}, optimistic: false }, callback);
+      callback.mockClear();
+
+      cache.writeData({ id: '1', data: { selected: true } });
+      expect(callback.mock.calls.length).to.eq(1);
+      expect(callback.mock.calls[0][0].result.user).to.deep.eq({ id: 1, name: 'Foo', selected: true });
+    });
+
+  });
+});
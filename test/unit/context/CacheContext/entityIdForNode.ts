@@ -83,5 +83,51 @@ describe(`context.CacheContext`, () => {
         expect(context.entityIdForNode({})).to.eq(undefined);
       });
     });
+
+    describe(`type policies`, () => {
+
+      let context: CacheContext;
+      beforeAll(() => {
+        context = new CacheContext({
+          typePolicies: {
+            User: { keyFields: ['id'] },
+            Post: { keyFields: ['id'] },
+            Book: { keyFields: ['isbn', 'edition'] },
+            Chapter: { keyFields: ['book.isbn', 'number'] },
+          },
+        });
+      });
+
+      it(`prefixes single key fields with the type`, () => {
+        expect(context.entityIdForNode({ __typename: 'User', id: 1 })).to.eq('User:1');
+        expect(context.entityIdForNode({ __typename: 'Post', id: '1' })).to.eq('Post:1');
+      });
+
+      it(`serializes composite key fields canonically`, () => {
+        expect(context.entityIdForNode({ __typename: 'Book', edition: 2, isbn: 'abc' }))
+          .to.eq(`Book:{"edition":2,"isbn":"abc"}`);
+      });
+
+      it(`supports nested key fields`, () => {
+        expect(context.entityIdForNode({ __typename: 'Chapter', number: 3, book: { isbn: 'abc', title: 'A' } }))
+          .to.eq(`Chapter:{"book":{"isbn":"abc"},"number":3}`);
+      });
+
+      it(`treats nodes missing key fields as undefined`, () => {
+        expect(context.entityIdForNode({ __typename: 'Book', isbn: 'abc' })).to.eq(undefined);
+        expect(context.entityIdForNode({ __typename: 'Chapter', number: 3, book: null })).to.eq(undefined);
+      });
+
+      it(`falls back to entityIdForNode for other types`, () => {
+        expect(context.entityIdForNode({ __typename: 'Comment', id: 1 })).to.eq('1');
+        expect(context.entityIdForNode({ id: 1 })).to.eq('1');
+      });
+
+      it(`reports missing key fields`, () => {
+        expect(context.missingKeyFields({ __typename: 'Chapter', book: { title: 'A' } })).to.deep.eq(['book.isbn', 'number']);
+        expect(context.missingKeyFields({ __typename: 'Comment' })).to.deep.eq([]);
+      });
+
+    });
   });
 });
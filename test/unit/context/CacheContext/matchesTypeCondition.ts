@@ -0,0 +1,81 @@
+import { CacheContext } from '../../../../src/context/CacheContext';
+
+describe(`context.CacheContext`, () => {
+  describe(`matchesTypeCondition`, () => {
+
+    describe(`without possible types`, () => {
+
+      const context = new CacheContext();
+
+      it(`matches values of the same type`, () => {
+        expect(context.matchesTypeCondition('Photo', { __typename: 'Photo' })).to.eq(true);
+      });
+
+      it(`assumes other types are abstract, and match`, () => {
+        expect(context.matchesTypeCondition('Media', { __typename: 'Photo' })).to.eq(true);
+      });
+
+      it(`matches values without a __typename`, () => {
+        expect(context.matchesTypeCondition('Photo', {})).to.eq(true);
+      });
+
+    });
+
+    describe(`with a possible types map`, () => {
+
+      const context = new CacheContext({
+        possibleTypes: {
+          Media: ['Photo', 'Video'],
+          Node: ['User', 'Media'],
+        },
+      });
+
+      it(`matches values of the same type`, () => {
+        expect(context.matchesTypeCondition('Photo', { __typename: 'Photo' })).to.eq(true);
+      });
+
+      it(`matches possible types of abstract types`, () => {
+        expect(context.matchesTypeCondition('Media', { __typename: 'Video' })).to.eq(true);
+      });
+
+      it(`matches possible types transitively`, () => {
+        expect(context.matchesTypeCondition('Node', { __typename: 'Photo' })).to.eq(true);
+      });
+
+      it(`does not match other types`, () => {
+        expect(context.matchesTypeCondition('Photo', { __typename: 'Video' })).to.eq(false);
+        expect(context.matchesTypeCondition('Media', { __typename: 'User' })).to.eq(false);
+      });
+
+      it(`matches values without a __typename`, () => {
+        expect(context.matchesTypeCondition('Photo', {})).to.eq(true);
+      });
+
+    });
+
+    describe(`with an introspection result`, () => {
+
+      const context = new CacheContext({
+        possibleTypes: {
+          __schema: {
+            types: [
+              { name: 'Media', possibleTypes: [{ name: 'Photo' }, { name: 'Video' }] },
+              { name: 'Photo', possibleTypes: null },
+              { name: 'Video' },
+            ],
+          },
+        },
+      });
+
+      it(`matches possible types of abstract types`, () => {
+        expect(context.matchesTypeCondition('Media', { __typename: 'Photo' })).to.eq(true);
+      });
+
+      it(`does not match other types`, () => {
+        expect(context.matchesTypeCondition('Photo', { __typename: 'Video' })).to.eq(false);
+      });
+
+    });
+
+  });
+});
@@ -0,0 +1,30 @@
+import { CacheContext } from '../../../../src/context/CacheContext';
+
+describe(`context.CacheContext`, () => {
+  describe(`scalarCodec`, () => {
+
+    const DateTime = {
+      serialize: (value: Date) => value.toISOString(),
+      parse: (value: any) => new Date(value),
+    };
+
+    it(`returns the codec of custom scalar fields`, () => {
+      const context = new CacheContext({ scalars: { DateTime }, scalarFields: { Post: { createdAt: 'DateTime' } } });
+      expect(context.scalarCodec('Post', 'createdAt')).to.eq(DateTime);
+    });
+
+    it(`returns undefined for other fields`, () => {
+      const context = new CacheContext({ scalars: { DateTime }, scalarFields: { Post: { createdAt: 'DateTime' } } });
+      expect(context.scalarCodec('Post', 'title')).to.eq(undefined);
+      expect(context.scalarCodec('User', 'createdAt')).to.eq(undefined);
+      expect(context.scalarCodec(undefined, 'createdAt')).to.eq(undefined);
+    });
+
+    it(`throws when a custom scalar field has no codec`, () => {
+      expect(() => {
+        new CacheContext({ scalarFields: { Post: { createdAt: 'DateTime' } } }); // eslint-disable-line no-new
+      }).to.throw(/DateTime.*Post\.createdAt/);
+    });
+
+  });
+});
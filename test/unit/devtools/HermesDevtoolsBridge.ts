@@ -0,0 +1,121 @@
+import { Cache } from '../../../src/Cache';
+import {
+  DevtoolsMessage,
+  DevtoolsMethod,
+  DevtoolsResponse,
+  DevtoolsTransport,
+  HermesDevtoolsBridge,
+  inProcessTransportPair,
+  MessageSource,
+} from '../../../src/devtools';
+import { JsonObject } from '../../../src/primitive';
+import { StaticNodeId } from '../../../src/schema';
+import { query, strictConfig } from '../../helpers';
+
+const { QueryRoot: QueryRootId } = StaticNodeId;
+
+describe(`devtools.HermesDevtoolsBridge`, () => {
+
+  const viewerQuery = query(`query getViewer {
+    viewer { id name }
+  }`);
+
+  let cache: Cache, bridge: HermesDevtoolsBridge, client: DevtoolsTransport, messages: DevtoolsMessage[];
+  beforeEach(() => {
+    cache = new Cache(strictConfig);
+    cache.write(viewerQuery, { viewer: { id: 1, name: 'Foo' } });
+
+    const [bridgeSide, clientSide] = inProcessTransportPair();
+    bridge = new HermesDevtoolsBridge(cache, bridgeSide);
+    client = clientSide;
+    messages = [];
+    client.onMessage(message => messages.push(message));
+  });
+
+  let nextId = 1;
+  function request(method: DevtoolsMethod, params?: JsonObject): DevtoolsResponse {
+    const id = nextId++;
+    client.postMessage({ source: MessageSource, type: 'request', id, method, params });
+    return messages.find(message => message.type === 'response' && message.id === id) as DevtoolsResponse;
+  }
+
+  it(`lists node ids`, () => {
+    expect(request('listNodeIds').result).to.have.members([QueryRootId, '1']);
+  });
+
+  it(`fetches nodes with their references`, () => {
+    expect(request('getNode', { id: '1' }).result).to.deep.eq({
+      type: 'entity',
+      node: { id: 1, name: 'Foo' },
+      inbound: [{ id: QueryRootId, path: ['viewer'] }],
+    });
+  });
+
+  it(`returns null for missing nodes`, () => {
+    expect(request('getNode', { id: 'nope' }).result).to.eq(null);
+  });
+
+  it(`responds with an error for invalid requests`, () => {
+    expect(request('getNode').error).to.be.a('string');
+    expect(request('bogus' as DevtoolsMethod).error).to.eq(`Unknown method: bogus`);
+  });
+
+  it(`lists active observers`, () => {
+    cache.watch(viewerQuery, () => {});
+
+    const [observer] = request('listObservers').result;
+    expect(observer.operationName).to.eq('getViewer');
+    expect(observer.rootId).to.eq(QueryRootId);
+    expect(observer.complete).to.eq(true);
+    expect(observer.nodeIds).to.have.members([QueryRootId, '1']);
+  });
+
+  it(`lists pending optimistic updates`, () => {
+    cache.transaction('one', t => t.write(viewerQuery, { viewer: { id: 1, name: 'One' } }));
+    cache.transaction('two', t => t.write(viewerQuery, { viewer: { id: 1, name: 'Two' } }));
+
+    expect(request('listOptimisticUpdates').result).to.deep.eq(['one', 'two']);
+  });
+
+  describe(`commit events`, () => {
+
+    it(`are not streamed by default`, () => {
+      cache.write(viewerQuery, { viewer: { id: 1, name: 'Bar' } });
+
+      expect(messages.filter(message => message.type === 'event')).to.deep.eq([]);
+    });
+
+    it(`are streamed once subscribed`, () => {
+      request('subscribeCommits');
+      cache.write(viewerQuery, { viewer: { id: 1, name: 'Bar' } });
+
+      const events = messages.filter(message => message.type === 'event');
+      expect(events.length).to.eq(1);
+      expect(events[0]).to.deep.eq({
+        source: MessageSource,
+        type: 'event',
+        event: 'commit',
+        payload: { editedNodeIds: ['1'] },
+      });
+    });
+
+    it(`stop once unsubscribed`, () => {
+      request('subscribeCommits');
+      request('unsubscribeCommits');
+      cache.write(viewerQuery, { viewer: { id: 1, name: 'Bar' } });
+
+      expect(messages.filter(message => message.type === 'event')).to.deep.eq([]);
+    });
+
+    it(`stop once detached`, () => {
+      request('subscribeCommits');
+      bridge.detach();
+      cache.write(viewerQuery, { viewer: { id: 1, name: 'Bar' } });
+
+      expect(messages.filter(message => message.type === 'event')).to.deep.eq([]);
+      expect(request('listNodeIds')).to.eq(undefined);
+    });
+
+  });
+
+});
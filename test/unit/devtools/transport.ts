@@ -0,0 +1,43 @@
+import { DevtoolsMessage, MessageSource, MessageTarget, postMessageTransport } from '../../../src/devtools';
+
+describe(`devtools.postMessageTransport`, () => {
+
+  const message: DevtoolsMessage = { source: MessageSource, type: 'request', id: 1, method: 'listNodeIds' };
+
+  let target: MessageTarget, handlers: ((event: { data: any }) => void)[];
+  beforeEach(() => {
+    handlers = [];
+    target = {
+      postMessage: jest.fn(),
+      addEventListener: (_type, handler) => handlers.push(handler),
+      removeEventListener: (_type, handler) => handlers.splice(handlers.indexOf(handler), 1),
+    };
+  });
+
+  it(`posts messages to the target`, () => {
+    postMessageTransport(target).postMessage(message);
+    expect((target.postMessage as jest.Mock<any>).mock.calls).to.deep.eq([[message]]);
+  });
+
+  it(`posts messages with a target origin`, () => {
+    postMessageTransport(target, '*').postMessage(message);
+    expect((target.postMessage as jest.Mock<any>).mock.calls).to.deep.eq([[message, '*']]);
+  });
+
+  it(`delivers protocol messages, ignoring others`, () => {
+    const listener = jest.fn();
+    postMessageTransport(target).onMessage(listener);
+    handlers.forEach(handler => handler({ data: { some: 'other message' } }));
+    handlers.forEach(handler => handler({ data: message }));
+
+    expect(listener.mock.calls).to.deep.eq([[message]]);
+  });
+
+  it(`stops delivering messages once unregistered`, () => {
+    const listener = jest.fn();
+    postMessageTransport(target).onMessage(listener)();
+
+    expect(handlers.length).to.eq(0);
+  });
+
+});
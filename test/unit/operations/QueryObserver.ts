@@ -0,0 +1,145 @@
+import { CacheContext } from '../../../src/context';
+import { GraphSnapshot } from '../../../src/GraphSnapshot';
+import { write } from '../../../src/operations';
+import { QueryObserver } from '../../../src/operations/QueryObserver';
+import { nodeIdForParameterizedValue } from '../../../src/operations/SnapshotEditor';
+import { StaticNodeId } from '../../../src/schema';
+import { query, strictConfig } from '../../helpers';
+
+const { QueryRoot: QueryRootId } = StaticNodeId;
+
+describe(`operations.QueryObserver`, () => {
+
+  const context = new CacheContext(strictConfig);
+  const empty = new GraphSnapshot();
+
+  const viewerQuery = query(`{
+    viewer { id name }
+  }`);
+
+  describe(`with a complete snapshot`, () => {
+
+    let snapshot: GraphSnapshot, observer: QueryObserver, callback: jest.Mock<any>;
+    beforeEach(() => {
+      snapshot = write(context, empty, viewerQuery, { viewer: { id: 1, name: 'Foo' } }).snapshot;
+      callback = jest.fn();
+      observer = new QueryObserver(context, viewerQuery, snapshot, callback);
+      callback.mockClear();
+    });
+
+    it(`triggers when an observed node changes`, () => {
+      const { snapshot: newSnapshot, editedNodeIds } = write(context, snapshot, query(`{ name }`, undefined, '1'), { name: 'Bar' });
+      observer.consumeChanges(newSnapshot, editedNodeIds);
+
+      expect(callback.mock.calls.length).to.eq(1);
+      expect(callback.mock.calls[0][0].result).to.deep.eq({ viewer: { id: 1, name: 'Bar' } });
+    });
+
+    it(`ignores changes to unobserved nodes`, () => {
+      const otherQuery = query(`{ name }`, undefined, '2');
+      const { snapshot: newSnapshot, editedNodeIds } = write(context, snapshot, otherQuery, { name: 'Other' });
+      observer.consumeChanges(newSnapshot, editedNodeIds);
+
+      expect(callback.mock.calls.length).to.eq(0);
+    });
+
+    it(`observes newly referenced nodes`, () => {
+      let { snapshot: newSnapshot, editedNodeIds } = write(context, snapshot, viewerQuery, { viewer: { id: 2, name: 'Two' } });
+      observer.consumeChanges(newSnapshot, editedNodeIds);
+      ({ snapshot: newSnapshot, editedNodeIds } = write(context, newSnapshot, query(`{ name }`, undefined, '2'), { name: 'Deux' }));
+      observer.consumeChanges(newSnapshot, editedNodeIds);
+
+      expect(callback.mock.calls.length).to.eq(2);
+      expect(callback.mock.calls[1][0].result).to.deep.eq({ viewer: { id: 2, name: 'Deux' } });
+    });
+
+  });
+
+  describe(`with a missing root`, () => {
+
+    const fragment = query(`{ name }`, undefined, '1');
+
+    it(`triggers once the root is written`, () => {
+      const callback = jest.fn();
+      const observer = new QueryObserver(context, fragment, empty, callback);
+      callback.mockClear();
+
+      const { snapshot, editedNodeIds } = write(context, empty, fragment, { name: 'Foo' });
+      observer.consumeChanges(snapshot, editedNodeIds);
+
+      expect(callback.mock.calls.length).to.eq(1);
+      expect(callback.mock.calls[0][0].result).to.deep.eq({ name: 'Foo' });
+    });
+
+  });
+
+  describe(`with parameterized fields`, () => {
+
+    const parameterizedQuery = query(`{
+      user(id: 1) { id name }
+    }`);
+    const parameterizedId = nodeIdForParameterizedValue(QueryRootId, ['user'], { id: 1 });
+
+    it(`triggers when a missing parameterized value is written`, () => {
+      const baseline = write(context, empty, query(`{ stuff }`), { stuff: 1 }).snapshot;
+      const callback = jest.fn();
+      const observer = new QueryObserver(context, parameterizedQuery, baseline, callback);
+      callback.mockClear();
+
+      const { snapshot, editedNodeIds } = write(context, baseline, parameterizedQuery, { user: { id: 1, name: 'Foo' } });
+      observer.consumeChanges(snapshot, editedNodeIds);
+
+      expect(callback.mock.calls.length).to.eq(1);
+      expect(callback.mock.calls[0][0].complete).to.eq(true);
+    });
+
+    it(`triggers when only the parameterized value changes`, () => {
+      const baseline = write(context, empty, parameterizedQuery, { user: { id: 1, name: 'Foo' } }).snapshot;
+      const callback = jest.fn();
+      const observer = new QueryObserver(context, parameterizedQuery, baseline, callback);
+      callback.mockClear();
+
+      const { snapshot, editedNodeIds } = write(context, baseline, parameterizedQuery, { user: null });
+      expect(editedNodeIds.has(QueryRootId)).to.eq(false);
+      expect(editedNodeIds.has(parameterizedId)).to.eq(true);
+      observer.consumeChanges(snapshot, editedNodeIds);
+
+      expect(callback.mock.calls.length).to.eq(1);
+      expect(callback.mock.calls[0][0].result).to.deep.eq({ user: null });
+    });
+
+  });
+
+  describe(`with read policies`, () => {
+
+    const policyContext = new CacheContext({
+      ...strictConfig,
+      readPolicies: {
+        Query: {
+          user: args => args.id as string,
+        },
+      },
+    });
+    const userQuery = query(`{
+      user(id: "1") { id name }
+    }`);
+
+    it(`triggers once the entity they redirect to is written`, () => {
+      const baseline = write(policyContext, empty, query(`{ stuff }`), { stuff: 1 }).snapshot;
+      const callback = jest.fn();
+      const observer = new QueryObserver(policyContext, userQuery, baseline, callback);
+      callback.mockClear();
+
+      const entityQuery = query(`{ id name }`, undefined, '1');
+      const { snapshot, editedNodeIds } = write(policyContext, baseline, entityQuery, { id: '1', name: 'Foo' });
+      expect(editedNodeIds.has(QueryRootId)).to.eq(false);
+      observer.consumeChanges(snapshot, editedNodeIds);
+
+      expect(callback.mock.calls.length).to.eq(1);
+      expect(callback.mock.calls[0][0].complete).to.eq(true);
+      expect(callback.mock.calls[0][0].result.user).to.deep.eq({ id: '1', name: 'Foo' });
+    });
+
+  });
+
+});
@@ -0,0 +1,92 @@
+import { CacheContext } from '../../../src/context';
+import { GraphSnapshot } from '../../../src/GraphSnapshot';
+import { collectGarbage } from '../../../src/operations/collectGarbage';
+import { write } from '../../../src/operations/write';
+import { NodeId, StaticNodeId } from '../../../src/schema';
+import { query, strictConfig } from '../../helpers';
+
+const { QueryRoot: QueryRootId } = StaticNodeId;
+
+describe(`operations.collectGarbage`, () => {
+
+  const context = new CacheContext(strictConfig);
+  const empty = new GraphSnapshot();
+  const cyclicQuery = query(`{
+    viewer {
+      id
+      name
+      friend { id name friend { id } }
+    }
+    other { id }
+  }`);
+
+  describe(`with an unreachable cycle`, () => {
+
+    let baseline: GraphSnapshot, snapshot: GraphSnapshot, editedNodeIds: Set<NodeId>, removedNodeIds: Set<NodeId>;
+    beforeAll(() => {
+      const cyclic = write(context, empty, cyclicQuery, {
+        viewer: { id: 1, name: 'Foo', friend: { id: 2, name: 'Bar', friend: { id: 1 } } },
+        other: { id: 3 },
+      }).snapshot;
+      // The cycle keeps both nodes from being orphaned.
+      baseline = write(context, cyclic, query(`{ viewer { id } }`), { viewer: null }).snapshot;
+
+      const result = collectGarbage(context, baseline, [QueryRootId]);
+      snapshot = result.snapshot;
+      editedNodeIds = result.editedNodeIds;
+      removedNodeIds = result.removedNodeIds;
+    });
+
+    it(`leaves the cycle in place when orphaning`, () => {
+      expect(baseline.allNodeIds()).to.have.members([QueryRootId, '1', '2', '3']);
+    });
+
+    it(`removes the unreachable nodes`, () => {
+      expect(snapshot.allNodeIds()).to.have.members([QueryRootId, '3']);
+    });
+
+    it(`reports the removed nodes`, () => {
+      expect(Array.from(removedNodeIds)).to.have.members(['1', '2']);
+      expect(Array.from(editedNodeIds)).to.have.members(['1', '2']);
+    });
+
+    it(`doesn't modify reachable nodes`, () => {
+      expect(snapshot.getNodeSnapshot(QueryRootId)).to.eq(baseline.getNodeSnapshot(QueryRootId));
+      expect(snapshot.getNodeSnapshot('3')).to.eq(baseline.getNodeSnapshot('3'));
+    });
+
+  });
+
+  describe(`with unreachable nodes that reference reachable ones`, () => {
+
+    let snapshot: GraphSnapshot;
+    beforeAll(() => {
+      const baseline = write(context, empty, query(`{ foo { id } }`), { foo: { id: 1 } }).snapshot;
+      const withDetached = write(context, baseline, query(`{ bar { id } }`, undefined, 'detached'), { bar: { id: 1 } }).snapshot;
+
+      snapshot = collectGarbage(context, withDetached, [QueryRootId]).snapshot;
+    });
+
+    it(`removes the unreachable nodes`, () => {
+      expect(snapshot.allNodeIds()).to.have.members([QueryRootId, '1']);
+    });
+
+    it(`removes inbound references from the unreachable nodes`, () => {
+      expect(snapshot.getNodeSnapshot('1')!.inbound).to.deep.eq([{ id: QueryRootId, path: ['foo'] }]);
+    });
+
+  });
+
+  describe(`with additional roots`, () => {
+
+    it(`retains nodes reachable from them`, () => {
+      const baseline = write(context, empty, query(`{ bar { id } }`, undefined, 'detached'), { bar: { id: 1 } }).snapshot;
+      const { snapshot, removedNodeIds } = collectGarbage(context, baseline, [QueryRootId, 'detached']);
+
+      expect(snapshot.allNodeIds()).to.have.members(['detached', '1']);
+      expect(removedNodeIds.size).to.eq(0);
+    });
+
+  });
+
+});
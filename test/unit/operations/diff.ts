@@ -0,0 +1,169 @@
+import { CacheContext } from '../../../src/context';
+import { GraphSnapshot } from '../../../src/GraphSnapshot';
+import { changedNodeIds, diffSnapshots, SnapshotDiff } from '../../../src/operations/diff';
+import { evict } from '../../../src/operations/evict';
+import { nodeIdForParameterizedValue } from '../../../src/operations/SnapshotEditor';
+import { write } from '../../../src/operations/write';
+import { StaticNodeId } from '../../../src/schema';
+import { query, strictConfig } from '../../helpers';
+
+const { QueryRoot: QueryRootId } = StaticNodeId;
+
+describe(`operations.diffSnapshots`, () => {
+
+  const context = new CacheContext(strictConfig);
+  const empty = new GraphSnapshot();
+  const rootQuery = query(`{
+    foo { id name tags }
+    bar { id name }
+    stats { count }
+  }`);
+
+  let baseline: GraphSnapshot;
+  beforeAll(() => {
+    baseline = write(context, empty, rootQuery, {
+      foo: { id: 1, name: 'Foo', tags: ['a', 'b'] },
+      bar: { id: 2, name: 'Bar' },
+      stats: { count: 1 },
+    }).snapshot;
+  });
+
+  describe(`identical snapshots`, () => {
+
+    it(`reports no changes`, () => {
+      expect(diffSnapshots(baseline, baseline)).to.deep.eq({ added: [], removed: [], changed: [] });
+    });
+
+  });
+
+  describe(`from an empty snapshot`, () => {
+
+    it(`reports all nodes as added`, () => {
+      const diff = diffSnapshots(empty, baseline);
+      expect(diff.added).to.have.members([QueryRootId, '1', '2']);
+      expect(diff.removed).to.deep.eq([]);
+      expect(diff.changed).to.deep.eq([]);
+    });
+
+  });
+
+  describe(`changed values`, () => {
+
+    let diff: SnapshotDiff;
+    beforeAll(() => {
+      const snapshot = write(context, baseline, rootQuery, {
+        foo: { id: 1, name: 'Foo', tags: ['a', 'c', 'd'] },
+        bar: { id: 2, name: 'Baz' },
+        stats: { count: 2 },
+      }).snapshot;
+      diff = diffSnapshots(baseline, snapshot);
+    });
+
+    it(`reports no added or removed nodes`, () => {
+      expect(diff.added).to.deep.eq([]);
+      expect(diff.removed).to.deep.eq([]);
+    });
+
+    it(`reports field level changes of entities`, () => {
+      const foo = diff.changed.find(change => change.id === '1')!;
+      expect(foo.fields).to.deep.eq([
+        { path: ['tags', 1], oldValue: 'b', newValue: 'c' },
+        { path: ['tags', 2], newValue: 'd' },
+      ]);
+
+      const bar = diff.changed.find(change => change.id === '2')!;
+      expect(bar.fields).to.deep.eq([
+        { path: ['name'], oldValue: 'Bar', newValue: 'Baz' },
+      ]);
+    });
+
+    it(`reports nested changes, but not referenced entities, of containers`, () => {
+      const root = diff.changed.find(change => change.id === QueryRootId)!;
+      expect(root.fields).to.deep.eq([
+        { path: ['stats', 'count'], oldValue: 1, newValue: 2 },
+      ]);
+      expect(root.outbound).to.deep.eq({ added: [], removed: [] });
+    });
+
+  });
+
+  describe(`changed references`, () => {
+
+    let diff: SnapshotDiff;
+    beforeAll(() => {
+      const snapshot = write(context, baseline, query(`{ bar { id name } }`), {
+        bar: { id: 3, name: 'New' },
+      }).snapshot;
+      diff = diffSnapshots(baseline, snapshot);
+    });
+
+    it(`reports added and removed nodes`, () => {
+      expect(diff.added).to.deep.eq(['3']);
+      expect(diff.removed).to.deep.eq(['2']);
+    });
+
+    it(`reports outbound reference changes of the container`, () => {
+      const root = diff.changed.find(change => change.id === QueryRootId)!;
+      expect(root.fields).to.deep.eq([]);
+      expect(root.outbound).to.deep.eq({
+        added: [{ id: '3', path: ['bar'] }],
+        removed: [{ id: '2', path: ['bar'] }],
+      });
+    });
+
+  });
+
+  describe(`evicted nodes`, () => {
+
+    let diff: SnapshotDiff;
+    beforeAll(() => {
+      diff = diffSnapshots(baseline, evict(context, baseline, '1').snapshot);
+    });
+
+    it(`reports the node as removed`, () => {
+      expect(diff.removed).to.deep.eq(['1']);
+    });
+
+    it(`reports the removed reference from its container`, () => {
+      const root = diff.changed.find(change => change.id === QueryRootId)!;
+      expect(root.outbound.removed).to.deep.eq([{ id: '1', path: ['foo'] }]);
+    });
+
+  });
+
+  describe(`parameterized values`, () => {
+
+    it(`reports changes to their values`, () => {
+      const parameterizedQuery = query(`{ foo(id: 1) { name } }`);
+      const parameterizedId = nodeIdForParameterizedValue(QueryRootId, ['foo'], { id: 1 });
+      const before = write(context, empty, parameterizedQuery, { foo: { name: 'Foo' } }).snapshot;
+      const after = write(context, before, parameterizedQuery, { foo: { name: 'Bar' } }).snapshot;
+
+      expect(diffSnapshots(before, after).changed).to.deep.eq([
+        {
+          id: parameterizedId,
+          fields: [{ path: ['name'], oldValue: 'Foo', newValue: 'Bar' }],
+          inbound: { added: [], removed: [] },
+          outbound: { added: [], removed: [] },
+        },
+      ]);
+    });
+
+  });
+
+});
+
+describe(`operations.changedNodeIds`, () => {
+
+  const context = new CacheContext(strictConfig);
+  const empty = new GraphSnapshot();
+
+  it(`includes added, removed and changed nodes`, () => {
+    const rootQuery = query(`{ foo { id name } bar { id name } }`);
+    const before = write(context, empty, rootQuery, { foo: { id: 1, name: 'Foo' }, bar: { id: 2, name: 'Bar' } }).snapshot;
+    const after = write(context, before, query(`{ bar { id name } }`), { bar: { id: 3, name: 'New' } }).snapshot;
+
+    expect(Array.from(changedNodeIds(before, after))).to.have.members([QueryRootId, '2', '3']);
+  });
+
+});
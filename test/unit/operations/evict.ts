@@ -0,0 +1,157 @@
+import { CacheContext } from '../../../src/context';
+import { GraphSnapshot } from '../../../src/GraphSnapshot';
+import { evict } from '../../../src/operations/evict';
+import { nodeIdForParameterizedValue } from '../../../src/operations/SnapshotEditor';
+import { write } from '../../../src/operations/write';
+import { NodeId, StaticNodeId } from '../../../src/schema';
+import { query, strictConfig } from '../../helpers';
+
+const { QueryRoot: QueryRootId } = StaticNodeId;
+
+describe(`operations.evict`, () => {
+
+  const context = new CacheContext(strictConfig);
+  const empty = new GraphSnapshot();
+
+  describe(`an entity referenced by the root`, () => {
+
+    let baseline: GraphSnapshot, snapshot: GraphSnapshot, editedNodeIds: Set<NodeId>;
+    beforeAll(() => {
+      const rootQuery = query(`{
+        foo { id name bar { id name } }
+        baz { id name }
+      }`);
+      baseline = write(context, empty, rootQuery, {
+        foo: { id: 1, name: 'Foo', bar: { id: 2, name: 'Bar' } },
+        baz: { id: 3, name: 'Baz' },
+      }).snapshot;
+
+      const result = evict(context, baseline, '1');
+      snapshot = result.snapshot;
+      editedNodeIds = result.editedNodeIds;
+    });
+
+    it(`doesn't mutate the previous version`, () => {
+      expect(baseline.allNodeIds()).to.have.members([QueryRootId, '1', '2', '3']);
+      expect(baseline.get(QueryRootId)).to.deep.eq({
+        foo: { id: 1, name: 'Foo', bar: { id: 2, name: 'Bar' } },
+        baz: { id: 3, name: 'Baz' },
+      });
+    });
+
+    it(`replaces references to the evicted node with null`, () => {
+      expect(snapshot.get(QueryRootId)).to.deep.eq({
+        foo: null,
+        baz: { id: 3, name: 'Baz' },
+      });
+    });
+
+    it(`removes the evicted node, and any nodes it orphaned`, () => {
+      expect(snapshot.allNodeIds()).to.have.members([QueryRootId, '3']);
+    });
+
+    it(`updates outbound references of the container`, () => {
+      const queryRoot = snapshot.getNodeSnapshot(QueryRootId)!;
+      expect(queryRoot.outbound).to.deep.eq([{ id: '3', path: ['baz'] }]);
+    });
+
+    it(`marks the container, evicted, and orphaned nodes as edited`, () => {
+      expect(Array.from(editedNodeIds)).to.have.members([QueryRootId, '1', '2']);
+    });
+
+  });
+
+  describe(`an entity that is referenced multiple times`, () => {
+
+    let snapshot: GraphSnapshot;
+    beforeAll(() => {
+      const listQuery = query(`{
+        things { id name }
+        favorite { id name }
+      }`);
+      const baseline = write(context, empty, listQuery, {
+        things: [{ id: 1, name: 'One' }, { id: 2, name: 'Two' }],
+        favorite: { id: 2, name: 'Two' },
+      }).snapshot;
+
+      snapshot = evict(context, baseline, '2').snapshot;
+    });
+
+    it(`replaces all references with null`, () => {
+      expect(snapshot.get(QueryRootId)).to.deep.eq({
+        things: [{ id: 1, name: 'One' }, null],
+        favorite: null,
+      });
+    });
+
+    it(`removes the evicted node`, () => {
+      expect(snapshot.allNodeIds()).to.have.members([QueryRootId, '1']);
+    });
+
+  });
+
+  describe(`an entity that contains parameterized values`, () => {
+
+    let snapshot: GraphSnapshot, parameterizedId: NodeId;
+    beforeAll(() => {
+      const parameterizedQuery = query(`{
+        viewer {
+          id
+          friends(first: 1) { id name }
+        }
+      }`);
+      parameterizedId = nodeIdForParameterizedValue('1', ['friends'], { first: 1 });
+
+      const baseline = write(context, empty, parameterizedQuery, {
+        viewer: { id: 1, friends: [{ id: 2, name: 'Two' }] },
+      }).snapshot;
+
+      snapshot = evict(context, baseline, '1').snapshot;
+    });
+
+    it(`removes the parameterized values, and nodes they orphaned`, () => {
+      expect(snapshot.allNodeIds()).to.have.members([QueryRootId]);
+      expect(snapshot.has(parameterizedId)).to.eq(false);
+    });
+
+  });
+
+  describe(`a parameterized value`, () => {
+
+    let snapshot: GraphSnapshot, parameterizedId: NodeId;
+    beforeAll(() => {
+      const parameterizedQuery = query(`{
+        foo(id: 1) { id name }
+      }`);
+      parameterizedId = nodeIdForParameterizedValue(QueryRootId, ['foo'], { id: 1 });
+
+      const baseline = write(context, empty, parameterizedQuery, {
+        foo: { id: 1, name: 'Foo' },
+      }).snapshot;
+
+      snapshot = evict(context, baseline, parameterizedId).snapshot;
+    });
+
+    it(`removes the parameterized value, and nodes it orphaned`, () => {
+      expect(snapshot.allNodeIds()).to.have.members([QueryRootId]);
+    });
+
+    it(`removes the reference from its container`, () => {
+      expect(snapshot.getNodeSnapshot(QueryRootId)!.outbound).to.eq(undefined);
+    });
+
+  });
+
+  describe(`a node that does not exist`, () => {
+
+    it(`is a no-op`, () => {
+      const baseline = write(context, empty, query(`{ foo }`), { foo: 1 }).snapshot;
+      const { snapshot, editedNodeIds } = evict(context, baseline, 'nope');
+
+      expect(snapshot.allNodeIds()).to.have.members([QueryRootId]);
+      expect(editedNodeIds.size).to.eq(0);
+    });
+
+  });
+
+});
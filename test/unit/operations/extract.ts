@@ -0,0 +1,77 @@
+import { CacheContext } from '../../../src/context';
+import { GraphSnapshot } from '../../../src/GraphSnapshot';
+import { extract } from '../../../src/operations/extract';
+import { nodeIdForParameterizedValue } from '../../../src/operations/SnapshotEditor';
+import { write } from '../../../src/operations/write';
+import { SerializationVersion, SerializedGraph, SerializedNodeType, StaticNodeId } from '../../../src/schema';
+import { query, strictConfig } from '../../helpers';
+
+const { QueryRoot: QueryRootId } = StaticNodeId;
+
+describe(`operations.extract`, () => {
+
+  const context = new CacheContext(strictConfig);
+  const empty = new GraphSnapshot();
+
+  describe(`an empty snapshot`, () => {
+
+    it(`produces no nodes`, () => {
+      expect(extract(empty)).to.deep.eq({ version: SerializationVersion, nodes: {} });
+    });
+
+  });
+
+  describe(`a snapshot with cyclic references and parameterized values`, () => {
+
+    let extracted: SerializedGraph, parameterizedId: string;
+    beforeAll(() => {
+      const cyclicQuery = query(`{
+        viewer {
+          id
+          name
+          friend { id name friend { id } }
+          avatar(size: 10) { url }
+        }
+      }`);
+      parameterizedId = nodeIdForParameterizedValue('1', ['avatar'], { size: 10 });
+
+      const { snapshot } = write(context, empty, cyclicQuery, {
+        viewer: {
+          id: 1,
+          name: 'Foo',
+          friend: { id: 2, name: 'Bar', friend: { id: 1 } },
+          avatar: { url: 'foo.png' },
+        },
+      });
+      extracted = extract(snapshot);
+    });
+
+    it(`is JSON-safe`, () => {
+      expect(JSON.parse(JSON.stringify(extracted))).to.deep.eq(extracted);
+    });
+
+    it(`replaces references with null`, () => {
+      expect(extracted.nodes[QueryRootId]).to.deep.eq({
+        type: SerializedNodeType.Entity,
+        node: { viewer: null },
+        outbound: [{ id: '1', path: ['viewer'] }],
+      });
+      expect(extracted.nodes['1']).to.deep.eq({
+        type: SerializedNodeType.Entity,
+        node: { id: 1, name: 'Foo', friend: null },
+        inbound: [{ id: QueryRootId, path: ['viewer'] }, { id: '2', path: ['friend'] }],
+        outbound: [{ id: parameterizedId }, { id: '2', path: ['friend'] }],
+      });
+    });
+
+    it(`includes parameterized values`, () => {
+      expect(extracted.nodes[parameterizedId]).to.deep.eq({
+        type: SerializedNodeType.ParameterizedValue,
+        node: { url: 'foo.png' },
+        inbound: [{ id: '1' }],
+      });
+    });
+
+  });
+
+});
@@ -0,0 +1,315 @@
+import { parse, print } from 'graphql'; // eslint-disable-line import/no-extraneous-dependencies, import/no-unresolved
+
+import { CacheContext } from '../../../src/context';
+import { GraphSnapshot } from '../../../src/GraphSnapshot';
+import { missingQuery, read, write } from '../../../src/operations';
+import { query, strictConfig } from '../../helpers';
+
+function normalize(source: string) {
+  return source.replace(/\s+/g, ' ').trim();
+}
+
+describe(`operations.missingQuery`, () => {
+
+  const empty = new GraphSnapshot();
+  const partialQuery = query(`{
+    viewer {
+      __typename
+      id
+      name
+      friends { id name }
+    }
+  }`);
+  const fullQuery = query(`query getViewer($first: Int) {
+    viewer {
+      __typename
+      id
+      name
+      email
+      friends { id name avatar }
+      posts(first: $first) { title }
+    }
+    stats
+  }`, { first: 2 });
+
+  describe(`without an entity fetch strategy`, () => {
+
+    const context = new CacheContext(strictConfig);
+    let snapshot: GraphSnapshot;
+    beforeAll(() => {
+      snapshot = write(context, empty, partialQuery, {
+        viewer: {
+          __typename: 'User',
+          id: 1,
+          name: 'One',
+          friends: [{ id: 2, name: 'Two' }],
+        },
+      }).snapshot;
+    });
+
+    it(`returns undefined for satisfied queries`, () => {
+      expect(missingQuery(context, partialQuery, snapshot)).to.eq(undefined);
+    });
+
+    it(`selects only the missing fields (and key fields) from the root`, () => {
+      const document = missingQuery(context, fullQuery, snapshot)!;
+      expect(normalize(print(document))).to.eq(normalize(`query ($first: Int) {
+        viewer {
+          __typename
+          id
+          email
+          friends { id avatar }
+          posts(first: $first) { title }
+        }
+        stats
+      }`));
+    });
+
+    it(`gives the document a source`, () => {
+      const document = missingQuery(context, fullQuery, snapshot)!;
+      expect(print(parse(document.loc!.source.body))).to.eq(print(document));
+    });
+
+    it(`builds a document whose results complete the query when written`, () => {
+      const document = missingQuery(context, fullQuery, snapshot)!;
+      const fetched = write(context, snapshot, { ...fullQuery, document }, {
+        viewer: {
+          __typename: 'User',
+          id: 1,
+          email: 'one@example.com',
+          friends: [{ id: 2, avatar: 'two.png' }],
+          posts: [{ title: 'Hi' }],
+        },
+        stats: 3,
+      }).snapshot;
+
+      const { complete, result } = read(context, fullQuery, fetched);
+      expect(complete).to.eq(true);
+      expect(result).to.deep.eq({
+        viewer: {
+          __typename: 'User',
+          id: 1,
+          name: 'One',
+          email: 'one@example.com',
+          friends: [{ id: 2, name: 'Two', avatar: 'two.png' }],
+          posts: [{ title: 'Hi' }],
+        },
+        stats: 3,
+      });
+    });
+
+    it(`drops variables that are no longer used`, () => {
+      const withPosts = write(context, snapshot, query(`query getViewer($first: Int) {
+        viewer { id posts(first: $first) { title } }
+      }`, { first: 2 }), {
+        viewer: { id: 1, posts: [{ title: 'Hi' }] },
+      }).snapshot;
+
+      const document = missingQuery(context, fullQuery, withPosts)!;
+      expect(normalize(print(document))).to.eq(normalize(`{
+        viewer {
+          __typename
+          id
+          email
+          friends { id avatar }
+        }
+        stats
+      }`));
+    });
+
+    it(`inlines fragments`, () => {
+      const fragmentQuery = query(`
+        query getViewer { viewer { ...viewerFields } }
+        fragment viewerFields on User { id name email }
+      `);
+      const document = missingQuery(context, fragmentQuery, snapshot)!;
+      expect(normalize(print(document))).to.eq(normalize(`{
+        viewer { ... on User { id email } }
+      }`));
+    });
+
+    it(`keeps the type conditions of inline fragments`, () => {
+      const nodeQuery = query(`{
+        node(id: 1) {
+          __typename
+          id
+          ... on User { name email }
+          ... on Post { title }
+        }
+      }`);
+      const withNode = write(context, snapshot, query(`{ node(id: 1) { __typename id ... on User { name } } }`), {
+        node: { __typename: 'User', id: 1, name: 'One' },
+      }).snapshot;
+
+      const document = missingQuery(context, nodeQuery, withNode)!;
+      expect(normalize(print(document))).to.eq(normalize(`{
+        node(id: 1) {
+          __typename
+          id
+          ... on User { email }
+          ... on Post { title }
+        }
+      }`));
+    });
+
+    it(`does not select local-only fields`, () => {
+      const localQuery = query(`{
+        theme @client
+        viewer { id email isSelected @client }
+      }`);
+      const document = missingQuery(context, localQuery, snapshot)!;
+      expect(normalize(print(document))).to.eq(normalize(`{
+        viewer { id email }
+      }`));
+    });
+
+    it(`returns undefined when only local-only fields are missing`, () => {
+      expect(missingQuery(context, query(`{ theme @client viewer { id } }`), snapshot)).to.eq(undefined);
+    });
+
+    it(`selects the entire query when the root is missing`, () => {
+      const document = missingQuery(context, partialQuery, empty)!;
+      expect(normalize(print(document))).to.eq(normalize(`{
+        viewer {
+          __typename
+          id
+          name
+          friends { id name }
+        }
+      }`));
+    });
+
+  });
+
+  describe(`with type policies`, () => {
+
+    const context = new CacheContext({
+      ...strictConfig,
+      typePolicies: {
+        Book: { keyFields: ['isbn', 'author.name'] },
+      },
+    });
+    const booksQuery = query(`{
+      books {
+        __typename
+        isbn
+        title
+        author { name born }
+      }
+    }`);
+    let snapshot: GraphSnapshot;
+    beforeAll(() => {
+      snapshot = write(context, empty, query(`{ books { __typename isbn author { name } } }`), {
+        books: [{ __typename: 'Book', isbn: '123', author: { name: 'Ann' } }],
+      }).snapshot;
+    });
+
+    it(`selects their key fields alongside missing values`, () => {
+      const document = missingQuery(context, booksQuery, snapshot)!;
+      expect(normalize(print(document))).to.eq(normalize(`{
+        books {
+          __typename
+          isbn
+          title
+          author { name born }
+        }
+      }`));
+    });
+
+    it(`selects nested key fields alone when nothing else is missing there`, () => {
+      const withAuthor = write(context, snapshot, query(`{ books { __typename isbn author { name born } } }`), {
+        books: [{ __typename: 'Book', isbn: '123', author: { name: 'Ann', born: 1970 } }],
+      }).snapshot;
+
+      const document = missingQuery(context, booksQuery, withAuthor)!;
+      expect(normalize(print(document))).to.eq(normalize(`{
+        books {
+          __typename
+          isbn
+          title
+          author { name }
+        }
+      }`));
+    });
+
+  });
+
+  describe(`with the node strategy`, () => {
+
+    const context = new CacheContext({ ...strictConfig, entityFetchStrategy: 'node' });
+    let snapshot: GraphSnapshot;
+    beforeAll(() => {
+      snapshot = write(context, empty, partialQuery, {
+        viewer: {
+          __typename: 'User',
+          id: 1,
+          name: 'One',
+          friends: [{ id: 2, name: 'Two' }],
+        },
+      }).snapshot;
+    });
+
+    it(`roots missing fields at the deepest entity containing them`, () => {
+      const document = missingQuery(context, fullQuery, snapshot)!;
+      expect(normalize(print(document))).to.eq(normalize(`query ($first: Int) {
+        stats
+        entity0: node(id: "1") {
+          ... on User {
+            __typename
+            id
+            email
+            posts(first: $first) { title }
+          }
+        }
+        entity1: node(id: "2") {
+          id
+          avatar
+        }
+      }`));
+    });
+
+  });
+
+  describe(`with a custom strategy`, () => {
+
+    const context = new CacheContext({
+      ...strictConfig,
+      entityFetchStrategy: (id, typeName) => {
+        return typeName === 'User' ? { fieldName: 'user', args: { id: Number(id) } } : undefined;
+      },
+    });
+    let snapshot: GraphSnapshot;
+    beforeAll(() => {
+      snapshot = write(context, empty, partialQuery, {
+        viewer: {
+          __typename: 'User',
+          id: 1,
+          name: 'One',
+          friends: [{ id: 2, name: 'Two' }],
+        },
+      }).snapshot;
+    });
+
+    it(`falls back to the root for entities that can't be fetched directly`, () => {
+      const document = missingQuery(context, fullQuery, snapshot)!;
+      expect(normalize(print(document))).to.eq(normalize(`query ($first: Int) {
+        viewer {
+          __typename
+          id
+          friends { id avatar }
+        }
+        stats
+        entity0: user(id: 1) {
+          ... on User {
+            __typename
+            id
+            email
+            posts(first: $first) { title }
+          }
+        }
+      }`));
+    });
+
+  });
+
+});
@@ -0,0 +1,48 @@
+import { CacheContext } from '../../../../src/context';
+import { GraphSnapshot } from '../../../../src/GraphSnapshot';
+import { read, write } from '../../../../src/operations';
+import { nodeIdForParameterizedValue } from '../../../../src/operations/SnapshotEditor';
+import { query, strictConfig } from '../../../helpers';
+
+describe(`operations.read`, () => {
+
+  const context = new CacheContext(strictConfig);
+  const empty = new GraphSnapshot();
+
+  describe(`@include and @skip`, () => {
+
+    const conditionalQuery = `query getUser($withPosts: Boolean!, $skipEmail: Boolean = false) {
+      user {
+        id
+        email @skip(if: $skipEmail)
+        ... on User @include(if: $withPosts) {
+          posts(first: 2) { title }
+        }
+      }
+    }`;
+
+    let snapshot: GraphSnapshot;
+    beforeAll(() => {
+      snapshot = write(context, empty, query(`{ user { id } }`), { user: { id: 1 } }).snapshot;
+    });
+
+    it(`ignores excluded fields when determining completeness`, () => {
+      const { complete } = read(context, query(conditionalQuery, { withPosts: false, skipEmail: true }), snapshot);
+      expect(complete).to.eq(true);
+    });
+
+    it(`reports included fields as missing`, () => {
+      const { complete, missing } = read(context, query(conditionalQuery, { withPosts: true }), snapshot, undefined, true);
+      expect(complete).to.eq(false);
+      expect(missing!.map(({ path }) => path)).to.have.deep.members([['user', 'email'], ['user', 'posts']]);
+    });
+
+    it(`does not select parameterized values of excluded fields`, () => {
+      const { nodeIds } = read(context, query(conditionalQuery, { withPosts: false }), snapshot, true);
+      const parameterizedId = nodeIdForParameterizedValue('1', ['posts'], { first: 2 });
+      expect(Array.from(nodeIds)).to.not.include(parameterizedId);
+    });
+
+  });
+
+});
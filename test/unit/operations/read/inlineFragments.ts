@@ -0,0 +1,45 @@
+import { CacheContext } from '../../../../src/context';
+import { GraphSnapshot } from '../../../../src/GraphSnapshot';
+import { read, write } from '../../../../src/operations';
+import { query, strictConfig } from '../../../helpers';
+
+describe(`operations.read`, () => {
+
+  const context = new CacheContext(strictConfig);
+  const empty = new GraphSnapshot();
+
+  describe(`inline fragments`, () => {
+
+    const inlineQuery = query(`query getViewer($count: Int) {
+      viewer {
+        id
+        ... on User {
+          handle: name
+          posts(first: $count) { title }
+        }
+      }
+    }`, { count: 5 });
+
+    it(`reads aliased and parameterized fields within them`, () => {
+      const snapshot = write(context, empty, inlineQuery, {
+        viewer: { id: 1, handle: 'Foo', posts: [{ title: 'Hello' }] },
+      }).snapshot;
+
+      const { result, complete } = read(context, inlineQuery, snapshot);
+      expect(complete).to.eq(true);
+      expect(result!.viewer).to.deep.eq({ id: 1, handle: 'Foo', name: 'Foo', posts: [{ title: 'Hello' }] });
+    });
+
+    it(`reports missing fields within them`, () => {
+      const snapshot = write(context, empty, query(`{ viewer { id name } }`), {
+        viewer: { id: 1, name: 'Foo' },
+      }).snapshot;
+
+      const { complete, missing } = read(context, inlineQuery, snapshot, undefined, true);
+      expect(complete).to.eq(false);
+      expect(missing!.map(({ path }) => path)).to.deep.eq([['viewer', 'posts']]);
+    });
+
+  });
+
+});
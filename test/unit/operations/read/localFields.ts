@@ -0,0 +1,92 @@
+import { CacheContext } from '../../../../src/context';
+import { GraphSnapshot } from '../../../../src/GraphSnapshot';
+import { read, write } from '../../../../src/operations';
+import { StaticNodeId } from '../../../../src/schema';
+import { query, strictConfig } from '../../../helpers';
+
+const { QueryRoot: QueryRootId } = StaticNodeId;
+
+describe(`operations.read`, () => {
+
+  const empty = new GraphSnapshot();
+
+  describe(`local-only fields`, () => {
+
+    const context = new CacheContext({
+      ...strictConfig,
+      resolvers: {
+        Query: {
+          theme: () => 'dark',
+        },
+        User: {
+          displayName: ({ name }) => `~${name}~`,
+          greeting: ({ name }, { prefix }) => `${prefix} ${name}`,
+        },
+      },
+    });
+
+    const userQuery = query(`{
+      user {
+        __typename
+        id
+        name
+      }
+    }`);
+
+    let snapshot: GraphSnapshot;
+    beforeAll(() => {
+      snapshot = write(context, empty, userQuery, {
+        user: { __typename: 'User', id: 1, name: 'Foo' },
+      }).snapshot;
+    });
+
+    it(`computes local fields via their resolvers`, () => {
+      const { result, complete } = read(context, query(`{
+        theme @client
+        user {
+          __typename
+          id
+          displayName @client
+          hello: greeting(prefix: "Hi") @client
+        }
+      }`), snapshot);
+
+      expect(complete).to.eq(true);
+      expect(result).to.deep.eq({
+        theme: 'dark',
+        user: { __typename: 'User', id: 1, name: 'Foo', displayName: '~Foo~', hello: 'Hi Foo' },
+      });
+    });
+
+    it(`resolves local fields of the root before it has been written`, () => {
+      const { result, complete } = read(context, query(`{ theme @client }`), empty);
+      expect(complete).to.eq(true);
+      expect(result).to.deep.eq({ theme: 'dark' });
+    });
+
+    it(`reads written values of local fields without resolvers`, () => {
+      const localQuery = query(`{ user { id isSelected @client } }`);
+      const edited = write(context, snapshot, localQuery, { user: { id: 1, isSelected: true } }).snapshot;
+
+      const { result, complete } = read(context, localQuery, edited);
+      expect(complete).to.eq(true);
+      expect(result!.user).to.deep.include({ id: 1, isSelected: true });
+    });
+
+    it(`reports local fields without values as missing`, () => {
+      const { complete, missing } = read(context, query(`{ user { id isSelected @client } }`), snapshot, undefined, true);
+      expect(complete).to.eq(false);
+      expect(missing).to.deep.eq([{ path: ['user', 'isSelected'], nodeId: '1' }]);
+    });
+
+    it(`accepts payloads without local fields`, () => {
+      const localQuery = query(`{ user { id name isSelected @client } }`);
+      const { snapshot: edited } = write(context, empty, localQuery, { user: { id: 1, name: 'Bar' } });
+
+      expect(edited.get('1')).to.deep.eq({ id: 1, name: 'Bar' });
+      expect(edited.getNodeSnapshot(QueryRootId)!.outbound).to.deep.eq([{ id: '1', path: ['user'] }]);
+    });
+
+  });
+
+});
@@ -0,0 +1,125 @@
+import { CacheContext } from '../../../../src/context';
+import { GraphSnapshot } from '../../../../src/GraphSnapshot';
+import { read, write } from '../../../../src/operations';
+import { nodeIdForParameterizedValue } from '../../../../src/operations/SnapshotEditor';
+import { StaticNodeId } from '../../../../src/schema';
+import { query, strictConfig } from '../../../helpers';
+
+const { QueryRoot: QueryRootId } = StaticNodeId;
+
+describe(`operations.read`, () => {
+
+  const context = new CacheContext(strictConfig);
+  const empty = new GraphSnapshot();
+
+  describe(`missing values`, () => {
+
+    const friendsQuery = query(`{
+      viewer {
+        id
+        friends { id name }
+      }
+    }`);
+
+    it(`does not report missing values for complete reads`, () => {
+      const snapshot = write(context, empty, friendsQuery, {
+        viewer: { id: 1, friends: [{ id: 2, name: 'Two' }] },
+      }).snapshot;
+
+      const { complete, missing } = read(context, friendsQuery, snapshot, undefined, true);
+      expect(complete).to.eq(true);
+      expect(missing).to.eq(undefined);
+    });
+
+    it(`reports the path to each missing value, and the node that should hold it`, () => {
+      const snapshot = write(context, empty, query(`{ viewer { id friends { id } } }`), {
+        viewer: { id: 1, friends: [{ id: 2 }, { id: 3 }] },
+      }).snapshot;
+
+      const { complete, missing } = read(context, friendsQuery, snapshot, undefined, true);
+      expect(complete).to.eq(false);
+      expect(missing).to.deep.equal([
+        { path: ['viewer', 'friends', 0, 'name'], nodeId: '2' },
+        { path: ['viewer', 'friends', 1, 'name'], nodeId: '3' },
+      ]);
+    });
+
+    it(`only reports missing values when requested`, () => {
+      const snapshot = write(context, empty, query(`{ viewer { id friends { id } } }`), {
+        viewer: { id: 1, friends: [{ id: 2 }, { id: 3 }] },
+      }).snapshot;
+
+      const { complete, missing } = read(context, friendsQuery, snapshot);
+      expect(complete).to.eq(false);
+      expect(missing).to.eq(undefined);
+
+      // Even after the (incomplete) result was cached.
+      expect(read(context, friendsQuery, snapshot, undefined, true).missing).to.deep.equal([
+        { path: ['viewer', 'friends', 0, 'name'], nodeId: '2' },
+        { path: ['viewer', 'friends', 1, 'name'], nodeId: '3' },
+      ]);
+    });
+
+    it(`reports missing objects once, without descending into them`, () => {
+      const snapshot = write(context, empty, query(`{ viewer { id } }`), {
+        viewer: { id: 1 },
+      }).snapshot;
+
+      const { missing } = read(context, friendsQuery, snapshot, undefined, true);
+      expect(missing).to.deep.equal([
+        { path: ['viewer', 'friends'], nodeId: '1' },
+      ]);
+    });
+
+    it(`reports a missing root`, () => {
+      const { complete, missing } = read(context, friendsQuery, empty, undefined, true);
+      expect(complete).to.eq(false);
+      expect(missing).to.deep.equal([
+        { path: [], nodeId: QueryRootId },
+      ]);
+    });
+
+    it(`reports missing values by their aliases`, () => {
+      const snapshot = write(context, empty, query(`{ viewer { id } }`), {
+        viewer: { id: 1 },
+      }).snapshot;
+
+      const { missing } = read(context, query(`{ viewer { id handle: name } }`), snapshot, undefined, true);
+      expect(missing).to.deep.equal([
+        { path: ['viewer', 'handle'], nodeId: '1' },
+      ]);
+    });
+
+    it(`flags absent parameterized values`, () => {
+      const snapshot = write(context, empty, query(`{ viewer { id } }`), {
+        viewer: { id: 1 },
+      }).snapshot;
+
+      const { missing } = read(context, query(`{ viewer { id friends(first: 2) { id } } }`), snapshot, undefined, true);
+      expect(missing).to.deep.equal([
+        {
+          path: ['viewer', 'friends'],
+          nodeId: nodeIdForParameterizedValue('1', ['friends'], { first: 2 }),
+          parameterizedValueAbsent: true,
+        },
+      ]);
+    });
+
+    it(`reports values missing within parameterized values`, () => {
+      const parameterizedQuery = query(`{ viewer { id stats(period: "week") { views likes } } }`);
+      const snapshot = write(context, empty, query(`{ viewer { id stats(period: "week") { views } } }`), {
+        viewer: { id: 1, stats: { views: 10 } },
+      }).snapshot;
+
+      const { missing } = read(context, parameterizedQuery, snapshot, undefined, true);
+      expect(missing).to.deep.equal([
+        {
+          path: ['viewer', 'stats', 'likes'],
+          nodeId: nodeIdForParameterizedValue('1', ['stats'], { period: 'week' }),
+        },
+      ]);
+    });
+
+  });
+
+});
@@ -1,8 +1,12 @@
 import { CacheContext } from '../../../../src/context';
 import { GraphSnapshot } from '../../../../src/GraphSnapshot';
 import { read, write } from '../../../../src/operations';
+import { nodeIdForParameterizedValue } from '../../../../src/operations/SnapshotEditor';
+import { StaticNodeId } from '../../../../src/schema';
 import { query, strictConfig } from '../../../helpers';
 
+const { QueryRoot: QueryRootId } = StaticNodeId;
+
 describe(`operations.read`, () => {
 
   const context = new CacheContext(strictConfig);
@@ -34,6 +38,36 @@ describe(`operations.read`, () => {
         });
       });
 
+      it(`includes parameterized values in the selected node ids`, () => {
+        const parameterizedId = nodeIdForParameterizedValue(QueryRootId, ['user'], { id: 1, withExtra: true });
+        const { nodeIds } = read(context, parameterizedQuery, snapshot, true);
+        expect(Array.from(nodeIds)).to.have.members([QueryRootId, parameterizedId, '1']);
+      });
+
+      it(`includes parameterized values when node ids are requested after a plain read`, () => {
+        const other = write(context, empty, parameterizedQuery, {
+          user: { id: 1, name: 'Foo', extra: true },
+          stuff: 123,
+        }).snapshot;
+        read(context, parameterizedQuery, other);
+
+        const parameterizedId = nodeIdForParameterizedValue(QueryRootId, ['user'], { id: 1, withExtra: true });
+        const { nodeIds } = read(context, parameterizedQuery, other, true);
+        expect(Array.from(nodeIds)).to.have.members([QueryRootId, parameterizedId, '1']);
+      });
+
+    });
+
+    describe(`with a missing parameterized value`, () => {
+
+      it(`still includes its id in the selected node ids`, () => {
+        const snapshot = write(context, empty, query(`{ stuff }`), { stuff: 123 }).snapshot;
+        const parameterizedId = nodeIdForParameterizedValue(QueryRootId, ['user'], { id: 1, withExtra: true });
+
+        const { nodeIds } = read(context, parameterizedQuery, snapshot, true);
+        expect(Array.from(nodeIds)).to.have.members([QueryRootId, parameterizedId]);
+      });
+
     });
 
     describe(`with nested fields`, () => {
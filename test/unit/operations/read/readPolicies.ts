@@ -0,0 +1,96 @@
+import { CacheContext } from '../../../../src/context';
+import { GraphSnapshot } from '../../../../src/GraphSnapshot';
+import { read, write } from '../../../../src/operations';
+import { nodeIdForParameterizedValue } from '../../../../src/operations/SnapshotEditor';
+import { StaticNodeId } from '../../../../src/schema';
+import { query, strictConfig } from '../../../helpers';
+
+const { QueryRoot: QueryRootId } = StaticNodeId;
+
+describe(`operations.read`, () => {
+
+  const empty = new GraphSnapshot();
+
+  describe(`read policies`, () => {
+
+    const context = new CacheContext({
+      ...strictConfig,
+      readPolicies: {
+        Query: {
+          user: args => args.id as string,
+        },
+        User: {
+          friend: args => args.id as number,
+        },
+      },
+    });
+
+    let snapshot: GraphSnapshot;
+    beforeAll(() => {
+      snapshot = write(context, empty, query(`{
+        users { __typename id name }
+      }`), {
+        users: [
+          { __typename: 'User', id: 1, name: 'One' },
+          { __typename: 'User', id: 2, name: 'Two' },
+        ],
+      }).snapshot;
+    });
+
+    it(`redirects parameterized fields missing from the cache to entities`, () => {
+      const { result, complete } = read(context, query(`{ user(id: "1") { id name } }`), snapshot);
+      expect(complete).to.eq(true);
+      expect(result!.user).to.deep.eq({ __typename: 'User', id: 1, name: 'One' });
+    });
+
+    it(`redirects fields of entities (by __typename)`, () => {
+      const { result, complete } = read(context, query(`{
+        user(id: "1") { id friend(id: 2) { name } }
+      }`), snapshot);
+      expect(complete).to.eq(true);
+      expect((result as any).user.friend).to.deep.include({ id: 2, name: 'Two' });
+    });
+
+    it(`selects both the parameterized value, and the entity it redirects to`, () => {
+      const { nodeIds } = read(context, query(`{ user(id: "1") { id name } }`), snapshot, true);
+      expect(Array.from(nodeIds)).to.include.members([
+        nodeIdForParameterizedValue(QueryRootId, ['user'], { id: '1' }),
+        '1',
+      ]);
+    });
+
+    it(`prefers values written for the parameterized field`, () => {
+      const userQuery = query(`{ user(id: "1") { id name } }`);
+      const edited = write(context, snapshot, userQuery, { user: { id: 2, name: 'Two' } }).snapshot;
+
+      const { result } = read(context, userQuery, edited);
+      expect(result!.user).to.deep.include({ id: 2 });
+    });
+
+    it(`reports values missing from the redirected entity`, () => {
+      const { complete, missing } = read(context, query(`{ user(id: "1") { id email } }`), snapshot, undefined, true);
+      expect(complete).to.eq(false);
+      expect(missing).to.deep.eq([{ path: ['user', 'email'], nodeId: '1' }]);
+    });
+
+    it(`treats redirects to missing entities as absent parameterized values`, () => {
+      const { complete, missing } = read(context, query(`{ user(id: "3") { id } }`), snapshot, undefined, true);
+      expect(complete).to.eq(false);
+      expect(missing).to.deep.eq([{
+        path: ['user'],
+        nodeId: nodeIdForParameterizedValue(QueryRootId, ['user'], { id: '3' }),
+        parameterizedValueAbsent: true,
+      }]);
+    });
+
+    it(`redirects before the root has been written`, () => {
+      const entityOnly = write(context, empty, query(`{ id name }`, undefined, '1'), { id: 1, name: 'One' }).snapshot;
+
+      const { result, complete } = read(context, query(`{ user(id: "1") { id name } }`), entityOnly);
+      expect(complete).to.eq(true);
+      expect(result!.user).to.deep.eq({ id: 1, name: 'One' });
+    });
+
+  });
+
+});
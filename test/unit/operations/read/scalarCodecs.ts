@@ -0,0 +1,96 @@
+import { CacheContext } from '../../../../src/context';
+import { GraphSnapshot } from '../../../../src/GraphSnapshot';
+import { read, write } from '../../../../src/operations';
+import { query, strictConfig } from '../../../helpers';
+
+describe(`operations.read`, () => {
+
+  const empty = new GraphSnapshot();
+
+  describe(`custom scalars`, () => {
+
+    const context = new CacheContext({
+      ...strictConfig,
+      scalars: {
+        DateTime: {
+          serialize: (value: Date) => value.toISOString(),
+          parse: value => new Date(value as string),
+        },
+        Money: {
+          serialize: ({ amount, currency }: { amount: number, currency: string }) => `${amount} ${currency}`,
+          parse: (value) => {
+            const [amount, currency] = (value as string).split(' ');
+            return { amount: Number(amount), currency };
+          },
+        },
+      },
+      scalarFields: {
+        Post: { createdAt: 'DateTime', editedAt: 'DateTime', price: 'Money' },
+        Query: { now: 'DateTime' },
+      },
+    });
+
+    const postsQuery = query(`{
+      now
+      posts { __typename id title createdAt editedAt }
+    }`);
+
+    let snapshot: GraphSnapshot;
+    beforeAll(() => {
+      snapshot = write(context, empty, postsQuery, {
+        now: '2017-01-03T00:00:00.000Z',
+        posts: [
+          {
+            __typename: 'Post',
+            id: 1,
+            title: 'One',
+            createdAt: '2017-01-01T00:00:00.000Z',
+            editedAt: ['2017-01-01T01:00:00.000Z'],
+          },
+          { __typename: 'Post', id: 2, title: 'Two', createdAt: '2017-01-02T00:00:00.000Z', editedAt: null },
+        ],
+      }).snapshot;
+    });
+
+    it(`parses the values of custom scalar fields`, () => {
+      const { result, complete } = read(context, postsQuery, snapshot);
+      expect(complete).to.eq(true);
+      expect(result!.now).to.be.an.instanceOf(Date);
+      expect((result as any).now.toISOString()).to.eq('2017-01-03T00:00:00.000Z');
+
+      const [first, second] = (result as any).posts;
+      expect(first.title).to.eq('One');
+      expect(first.createdAt.getTime()).to.eq(Date.parse('2017-01-01T00:00:00.000Z'));
+      expect(first.editedAt[0].getTime()).to.eq(Date.parse('2017-01-01T01:00:00.000Z'));
+      expect(second.createdAt.getTime()).to.eq(Date.parse('2017-01-02T00:00:00.000Z'));
+      expect(second.editedAt).to.eq(null);
+    });
+
+    it(`parses the values of aliased fields`, () => {
+      const { result } = read(context, query(`{ posts { id created: createdAt } }`), snapshot);
+      expect((result as any).posts[0].created).to.be.an.instanceOf(Date);
+    });
+
+    it(`round trips values that are plain objects`, () => {
+      const priceQuery = query(`{ posts { __typename id price } }`);
+      const written = write(context, snapshot, priceQuery, {
+        posts: [{ __typename: 'Post', id: 1, price: { amount: 10, currency: 'USD' } as any }],
+      }).snapshot;
+      const { result } = read(context, priceQuery, written);
+      expect((result as any).posts[0].price).to.deep.eq({ amount: 10, currency: 'USD' });
+    });
+
+    it(`leaves the stored values serialized`, () => {
+      read(context, postsQuery, snapshot);
+      expect(snapshot.get('1')).to.deep.include({ createdAt: '2017-01-01T00:00:00.000Z' });
+    });
+
+    it(`returns the same parsed values from subsequent reads`, () => {
+      const first = read(context, postsQuery, snapshot).result as any;
+      const second = read(context, postsQuery, snapshot).result as any;
+      expect(second.posts[0].createdAt).to.eq(first.posts[0].createdAt);
+    });
+
+  });
+
+});
@@ -0,0 +1,71 @@
+import { CacheContext } from '../../../../src/context';
+import { GraphSnapshot } from '../../../../src/GraphSnapshot';
+import { read, write } from '../../../../src/operations';
+import { query, strictConfig } from '../../../helpers';
+
+describe(`operations.read`, () => {
+
+  const context = new CacheContext({
+    ...strictConfig,
+    possibleTypes: { Media: ['Photo', 'Video'] },
+  });
+  const empty = new GraphSnapshot();
+
+  describe(`fragments with type conditions`, () => {
+
+    const mediaQuery = query(`{
+      media {
+        __typename
+        id
+        ... on Photo { url }
+        ... on Video { url: streamUrl duration }
+        ... on Media { title }
+      }
+    }`);
+
+    let snapshot: GraphSnapshot;
+    beforeAll(() => {
+      snapshot = write(context, empty, mediaQuery, {
+        media: [
+          { __typename: 'Photo', id: 1, url: 'photo.png', title: 'A photo' },
+          { __typename: 'Video', id: 2, url: 'video.m3u8', duration: 10, title: 'A video' },
+        ],
+      }).snapshot;
+    });
+
+    it(`writes fields selected by the matching fragment`, () => {
+      expect(snapshot.get('1')).to.deep.eq({ __typename: 'Photo', id: 1, url: 'photo.png', title: 'A photo' });
+      expect(snapshot.get('2')).to.deep.eq({
+        __typename: 'Video', id: 2, streamUrl: 'video.m3u8', duration: 10, title: 'A video',
+      });
+    });
+
+    it(`considers the query complete, ignoring fragments that don't apply`, () => {
+      const { complete } = read(context, mediaQuery, snapshot);
+      expect(complete).to.eq(true);
+    });
+
+    it(`reads fields selected by the matching fragment`, () => {
+      const { result } = read(context, mediaQuery, snapshot);
+      expect(result!.media).to.deep.eq([
+        { __typename: 'Photo', id: 1, url: 'photo.png', title: 'A photo' },
+        { __typename: 'Video', id: 2, url: 'video.m3u8', streamUrl: 'video.m3u8', duration: 10, title: 'A video' },
+      ]);
+    });
+
+    it(`reports fields missing from the matching fragment`, () => {
+      const partial = write(context, empty, query(`{ media { __typename id } }`), {
+        media: [{ __typename: 'Video', id: 2 }],
+      }).snapshot;
+
+      const { missing } = read(context, mediaQuery, partial, undefined, true);
+      expect(missing!.map(({ path }) => path)).to.have.deep.members([
+        ['media', 0, 'url'],
+        ['media', 0, 'duration'],
+        ['media', 0, 'title'],
+      ]);
+    });
+
+  });
+
+});
@@ -0,0 +1,106 @@
+import { CacheContext } from '../../../src/context';
+import { GraphSnapshot } from '../../../src/GraphSnapshot';
+import { EntitySnapshot, ParameterizedValueSnapshot } from '../../../src/nodes';
+import { extract } from '../../../src/operations/extract';
+import { read } from '../../../src/operations/read';
+import { restore } from '../../../src/operations/restore';
+import { nodeIdForParameterizedValue } from '../../../src/operations/SnapshotEditor';
+import { write } from '../../../src/operations/write';
+import { SerializedGraph, StaticNodeId } from '../../../src/schema';
+import { query, strictConfig } from '../../helpers';
+
+const { QueryRoot: QueryRootId } = StaticNodeId;
+
+describe(`operations.restore`, () => {
+
+  const context = new CacheContext(strictConfig);
+  const empty = new GraphSnapshot();
+  const viewerQuery = query(`{
+    viewer {
+      id
+      name
+      friends { id name friend { id } }
+      avatar(size: 10) { url }
+      bestFriend(since: 2017) { id name }
+    }
+  }`);
+
+  describe(`a round trip`, () => {
+
+    let original: GraphSnapshot, restored: GraphSnapshot, serialized: SerializedGraph;
+    beforeAll(() => {
+      original = write(context, empty, viewerQuery, {
+        viewer: {
+          id: 1,
+          name: 'Foo',
+          friends: [{ id: 2, name: 'Bar', friend: { id: 1 } }, { id: 3, name: 'Baz', friend: null }],
+          avatar: { url: 'foo.png' },
+          bestFriend: { id: 3, name: 'Baz' },
+        },
+      }).snapshot;
+
+      serialized = JSON.parse(JSON.stringify(extract(original)));
+      restored = restore(context, serialized);
+    });
+
+    it(`restores all nodes`, () => {
+      expect(restored.allNodeIds()).to.have.members(original.allNodeIds());
+    });
+
+    it(`restores node values`, () => {
+      for (const id of original.allNodeIds()) {
+        expect(restored.get(id)).to.deep.eq(original.get(id));
+      }
+    });
+
+    it(`restores node types`, () => {
+      const parameterizedId = nodeIdForParameterizedValue('1', ['avatar'], { size: 10 });
+      expect(restored.getNodeSnapshot('1')).to.be.an.instanceOf(EntitySnapshot);
+      expect(restored.getNodeSnapshot(parameterizedId)).to.be.an.instanceOf(ParameterizedValueSnapshot);
+    });
+
+    it(`re-links shared references by identity`, () => {
+      const viewer = restored.get('1');
+      expect(restored.get(QueryRootId).viewer).to.eq(viewer);
+      expect(viewer.friends[0]).to.eq(restored.get('2'));
+      expect(viewer.friends[0].friend).to.eq(viewer);
+    });
+
+    it(`re-links parameterized values that reference entities`, () => {
+      const parameterizedId = nodeIdForParameterizedValue('1', ['bestFriend'], { since: 2017 });
+      expect(restored.get(parameterizedId)).to.eq(restored.get('3'));
+    });
+
+    it(`can be read from`, () => {
+      const { result, complete } = read(context, viewerQuery, restored);
+      expect(complete).to.eq(true);
+      expect(result).to.deep.eq(read(context, viewerQuery, original).result);
+    });
+
+    it(`can be written to`, () => {
+      const { snapshot } = write(context, restored, query(`{ id name }`, undefined, '3'), { id: 3, name: 'Baz2' });
+      expect(snapshot.get('1').friends[1].name).to.eq('Baz2');
+    });
+
+    it(`does not modify the serialized data`, () => {
+      expect(serialized.nodes['1'].node).to.deep.eq({ id: 1, name: 'Foo', friends: [null, null] });
+    });
+
+  });
+
+  describe(`invalid data`, () => {
+
+    it(`throws on unknown versions`, () => {
+      expect(() => restore(context, { version: 0, nodes: {} })).to.throw(/version/);
+    });
+
+    it(`throws on missing references`, () => {
+      const serialized = extract(write(context, empty, query(`{ foo { id } }`), { foo: { id: 1 } }).snapshot);
+      delete serialized.nodes['1'];
+
+      expect(() => restore(context, serialized)).to.throw(/missing node 1/);
+    });
+
+  });
+
+});
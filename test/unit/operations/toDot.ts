@@ -0,0 +1,102 @@
+import { CacheContext } from '../../../src/context';
+import { GraphSnapshot } from '../../../src/GraphSnapshot';
+import { nodeIdForParameterizedValue } from '../../../src/operations/SnapshotEditor';
+import { toDot } from '../../../src/operations/toDot';
+import { write } from '../../../src/operations/write';
+import { StaticNodeId } from '../../../src/schema';
+import { query, strictConfig } from '../../helpers';
+
+const { QueryRoot: QueryRootId } = StaticNodeId;
+
+describe(`operations.toDot`, () => {
+
+  const context = new CacheContext(strictConfig);
+  const empty = new GraphSnapshot();
+  const rootQuery = query(`{
+    viewer {
+      id
+      friends(first: 1) { id }
+    }
+    other { id }
+  }`);
+  const parameterizedId = nodeIdForParameterizedValue('1', ['friends'], { first: 1 });
+
+  let snapshot: GraphSnapshot;
+  beforeAll(() => {
+    snapshot = write(context, empty, rootQuery, {
+      viewer: { id: 1, friends: [{ id: 2 }] },
+      other: { id: 3 },
+    }).snapshot;
+  });
+
+  function quote(value: string) {
+    return JSON.stringify(value);
+  }
+
+  describe(`the full graph`, () => {
+
+    let dot: string;
+    beforeAll(() => {
+      dot = toDot(snapshot);
+    });
+
+    it(`emits a directed graph`, () => {
+      expect(dot.startsWith(`digraph "hermes" {\n`)).to.eq(true);
+      expect(dot.endsWith(`}\n`)).to.eq(true);
+    });
+
+    it(`emits entities as boxes`, () => {
+      expect(dot).to.include(`  "${QueryRootId}" [shape=box];`);
+      expect(dot).to.include(`  "1" [shape=box];`);
+      expect(dot).to.include(`  "2" [shape=box];`);
+      expect(dot).to.include(`  "3" [shape=box];`);
+    });
+
+    it(`emits parameterized values as dashed ellipses`, () => {
+      expect(dot).to.include(`  ${quote(parameterizedId)} [shape=ellipse, style=dashed];`);
+    });
+
+    it(`emits references as edges labeled by path`, () => {
+      expect(dot).to.include(`  "${QueryRootId}" -> "1" [label="viewer"];`);
+      expect(dot).to.include(`  ${quote(parameterizedId)} -> "2" [label="0"];`);
+    });
+
+    it(`emits path-less references as dotted edges`, () => {
+      expect(dot).to.include(`  "1" -> ${quote(parameterizedId)} [style=dotted];`);
+    });
+
+  });
+
+  describe(`filtered by root`, () => {
+
+    it(`only emits reachable nodes`, () => {
+      const dot = toDot(snapshot, { rootIds: ['1'] });
+
+      expect(dot).to.include(`  "1" [shape=box];`);
+      expect(dot).to.include(`  "2" [shape=box];`);
+      expect(dot).not.to.include(`"3"`);
+      expect(dot).not.to.include(`"${QueryRootId}"`);
+    });
+
+  });
+
+  describe(`filtered by query`, () => {
+
+    it(`only emits selected nodes`, () => {
+      const dot = toDot(snapshot, { query: query(`{ other { id } }`), context });
+
+      expect(dot).to.include(`  "${QueryRootId}" -> "3" [label="other"];`);
+      expect(dot).not.to.include(`"1"`);
+    });
+
+    it(`requires a context`, () => {
+      expect(() => toDot(snapshot, { query: rootQuery })).to.throw(/context/);
+    });
+
+  });
+
+  it(`escapes identifiers`, () => {
+    expect(toDot(empty, { graphName: `a "quoted" \\ name` })).to.include(`digraph "a \\"quoted\\" \\\\ name" {`);
+  });
+
+});
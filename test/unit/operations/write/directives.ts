@@ -0,0 +1,42 @@
+import { CacheContext } from '../../../../src/context';
+import { GraphSnapshot } from '../../../../src/GraphSnapshot';
+import { write } from '../../../../src/operations/write';
+import { StaticNodeId } from '../../../../src/schema';
+import { query, strictConfig } from '../../../helpers';
+
+const { QueryRoot: QueryRootId } = StaticNodeId;
+
+// These are really more like integration tests, given the underlying machinery.
+//
+// It just isn't very fruitful to unit test the individual steps of the write
+// workflow in isolation, given the contextual state that must be passed around.
+describe(`operations.write`, () => {
+
+  const context = new CacheContext(strictConfig);
+  const empty = new GraphSnapshot();
+
+  describe(`@include and @skip`, () => {
+
+    const conditionalQuery = `query getUser($withName: Boolean!, $withEmail: Boolean!) {
+      user {
+        id
+        name @include(if: $withName)
+        email @skip(if: $withEmail)
+      }
+    }`;
+    const payload = { user: { id: 1, name: 'Foo', email: 'foo@example.com' } };
+
+    it(`writes included fields`, () => {
+      const { snapshot } = write(context, empty, query(conditionalQuery, { withName: true, withEmail: false }), payload);
+      expect(snapshot.get('1')).to.deep.eq({ id: 1, name: 'Foo', email: 'foo@example.com' });
+    });
+
+    it(`skips excluded fields`, () => {
+      const { snapshot } = write(context, empty, query(conditionalQuery, { withName: false, withEmail: true }), payload);
+      expect(snapshot.get('1')).to.deep.eq({ id: 1 });
+      expect(snapshot.getNodeSnapshot(QueryRootId)!.outbound).to.deep.eq([{ id: '1', path: ['user'] }]);
+    });
+
+  });
+
+});
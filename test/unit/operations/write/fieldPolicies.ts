@@ -0,0 +1,123 @@
+import { CacheContext } from '../../../../src/context';
+import { GraphSnapshot } from '../../../../src/GraphSnapshot';
+import { JsonArray } from '../../../../src/primitive';
+import { read } from '../../../../src/operations/read';
+import { nodeIdForParameterizedValue } from '../../../../src/operations/SnapshotEditor';
+import { write } from '../../../../src/operations/write';
+import { StaticNodeId } from '../../../../src/schema';
+import { query, strictConfig } from '../../../helpers';
+
+const { QueryRoot: QueryRootId } = StaticNodeId;
+
+// These are really more like integration tests, given the underlying machinery.
+//
+// It just isn't very fruitful to unit test the individual steps of the write
+// workflow in isolation, given the contextual state that must be passed around.
+describe(`operations.write`, () => {
+
+  const empty = new GraphSnapshot();
+
+  describe(`field policies`, () => {
+
+    const context = new CacheContext({
+      ...strictConfig,
+      fieldPolicies: {
+        Query: {
+          feed: {
+            keyArgs: ['category'],
+            merge: (existing, incoming) => [...(existing as JsonArray || []), ...incoming as JsonArray],
+          },
+          latest: {
+            keyArgs: [],
+          },
+        },
+        User: {
+          posts: {
+            keyArgs: [],
+            merge: (existing, incoming) => [...(existing as JsonArray || []), ...incoming as JsonArray],
+          },
+        },
+      },
+    });
+
+    const feedQuery = query(`query getFeed($after: String) {
+      feed(category: "news", first: 2, after: $after) { id title }
+    }`);
+    const feedId = nodeIdForParameterizedValue(QueryRootId, ['feed'], { category: 'news' });
+
+    let snapshot: GraphSnapshot;
+    beforeAll(() => {
+      const firstPage = write(context, empty, { ...feedQuery, variables: { after: null } }, {
+        feed: [{ id: 1, title: 'One' }, { id: 2, title: 'Two' }],
+      }).snapshot;
+      snapshot = write(context, firstPage, { ...feedQuery, variables: { after: '2' } }, {
+        feed: [{ id: 3, title: 'Three' }, { id: 4, title: 'Four' }],
+      }).snapshot;
+    });
+
+    it(`stores values by their key arguments`, () => {
+      expect(snapshot.allNodeIds().filter(id => id.startsWith(`${QueryRootId}❖`))).to.deep.eq([feedId]);
+    });
+
+    it(`merges incoming values with stored ones`, () => {
+      expect(snapshot.get(feedId)).to.deep.eq([
+        { id: 1, title: 'One' },
+        { id: 2, title: 'Two' },
+        { id: 3, title: 'Three' },
+        { id: 4, title: 'Four' },
+      ]);
+      expect(snapshot.getNodeSnapshot(feedId)!.outbound).to.deep.eq([
+        { id: '1', path: [0] },
+        { id: '2', path: [1] },
+        { id: '3', path: [2] },
+        { id: '4', path: [3] },
+      ]);
+    });
+
+    it(`reads the stored value for any arguments that share key arguments`, () => {
+      const { result, complete } = read(context, { ...feedQuery, variables: { after: 'anything' } }, snapshot);
+      expect(complete).to.eq(true);
+      expect(result!.feed).to.have.length(4);
+    });
+
+    it(`keeps values with different key arguments apart`, () => {
+      const { complete } = read(context, query(`{
+        feed(category: "sports", first: 2) { id title }
+      }`), snapshot);
+      expect(complete).to.eq(false);
+    });
+
+    it(`keeps the latest values of entities that are merged again`, () => {
+      const edited = write(context, snapshot, { ...feedQuery, variables: { after: '4' } }, {
+        feed: [{ id: 2, title: 'Two (edited)' }],
+      }).snapshot;
+
+      expect(edited.get('2')).to.deep.eq({ id: 2, title: 'Two (edited)' });
+      expect((edited.get(feedId) as JsonArray).length).to.eq(5);
+    });
+
+    it(`replaces values without a merge function`, () => {
+      const latestQuery = query(`query getLatest($first: Int) { latest(first: $first) }`);
+      const first = write(context, empty, { ...latestQuery, variables: { first: 1 } }, { latest: ['a'] }).snapshot;
+      const second = write(context, first, { ...latestQuery, variables: { first: 2 } }, { latest: ['b', 'c'] }).snapshot;
+
+      expect(second.get(nodeIdForParameterizedValue(QueryRootId, ['latest'], {}))).to.deep.eq(['b', 'c']);
+    });
+
+    it(`applies policies by the __typename of the containing value`, () => {
+      const postsQuery = query(`query getPosts($page: Int) {
+        user { __typename id posts(page: $page) { id } }
+      }`);
+      const first = write(context, empty, { ...postsQuery, variables: { page: 1 } }, {
+        user: { __typename: 'User', id: 1, posts: [{ id: 10 }] },
+      }).snapshot;
+      const second = write(context, first, { ...postsQuery, variables: { page: 2 } }, {
+        user: { __typename: 'User', id: 1, posts: [{ id: 11 }] },
+      }).snapshot;
+
+      expect(second.get(nodeIdForParameterizedValue('1', ['posts'], {}))).to.deep.eq([{ id: 10 }, { id: 11 }]);
+    });
+
+  });
+
+});
@@ -0,0 +1,57 @@
+import { CacheContext } from '../../../../src/context';
+import { GraphSnapshot } from '../../../../src/GraphSnapshot';
+import { nodeIdForParameterizedValue } from '../../../../src/operations/SnapshotEditor';
+import { write } from '../../../../src/operations/write';
+import { StaticNodeId } from '../../../../src/schema';
+import { query, strictConfig } from '../../../helpers';
+
+const { QueryRoot: QueryRootId } = StaticNodeId;
+
+// These are really more like integration tests, given the underlying machinery.
+//
+// It just isn't very fruitful to unit test the individual steps of the write
+// workflow in isolation, given the contextual state that must be passed around.
+describe(`operations.write`, () => {
+
+  const context = new CacheContext(strictConfig);
+  const empty = new GraphSnapshot();
+
+  describe(`inline fragments`, () => {
+
+    let snapshot: GraphSnapshot;
+    beforeAll(() => {
+      const inlineQuery = query(`query getViewer($count: Int) {
+        viewer {
+          id
+          ... on User {
+            handle: name
+            posts(first: $count) { title }
+          }
+        }
+      }`, { count: 5 });
+
+      snapshot = write(context, empty, inlineQuery, {
+        viewer: {
+          id: 1,
+          handle: 'Foo',
+          posts: [{ title: 'Hello' }],
+        },
+      }).snapshot;
+    });
+
+    it(`writes aliased fields by their field names`, () => {
+      expect(snapshot.get('1')).to.deep.eq({ id: 1, name: 'Foo' });
+    });
+
+    it(`writes parameterized fields to parameterized value nodes`, () => {
+      const parameterizedId = nodeIdForParameterizedValue('1', ['posts'], { first: 5 });
+      expect(snapshot.get(parameterizedId)).to.deep.eq([{ title: 'Hello' }]);
+    });
+
+    it(`references the entity from the root`, () => {
+      expect(snapshot.getNodeSnapshot(QueryRootId)!.outbound).to.deep.eq([{ id: '1', path: ['viewer'] }]);
+    });
+
+  });
+
+});
@@ -573,6 +573,25 @@ describe(`operations.write`, () => {
 
     });
 
+    describe(`with arguments in a different order`, () => {
+
+      let snapshot: GraphSnapshot, parameterizedId: NodeId;
+      beforeAll(() => {
+        parameterizedId = nodeIdForParameterizedValue(QueryRootId, ['items'], { a: 1, b: { d: 2, c: 3 } });
+        const first = write(context, empty, query(`{ items(a: 1, b: { c: 3, d: 2 }) }`), { items: ['one'] }).snapshot;
+        snapshot = write(context, first, query(`{ items(b: { d: 2, c: 3 }, a: 1) }`), { items: ['two'] }).snapshot;
+      });
+
+      it(`writes to the same parameterized value`, () => {
+        expect(snapshot.get(parameterizedId)).to.deep.eq(['two']);
+      });
+
+      it(`does not create other parameterized values`, () => {
+        expect(snapshot.allNodeIds()).to.have.members([QueryRootId, parameterizedId]);
+      });
+
+    });
+
   });
 
 });
@@ -0,0 +1,126 @@
+import { CacheContext, relayConnectionPolicy } from '../../../../src/context';
+import { GraphSnapshot } from '../../../../src/GraphSnapshot';
+import { JsonObject } from '../../../../src/primitive';
+import { nodeIdForParameterizedValue } from '../../../../src/operations/SnapshotEditor';
+import { write } from '../../../../src/operations/write';
+import { StaticNodeId } from '../../../../src/schema';
+import { query, strictConfig } from '../../../helpers';
+
+const { QueryRoot: QueryRootId } = StaticNodeId;
+
+// These are really more like integration tests, given the underlying machinery.
+//
+// It just isn't very fruitful to unit test the individual steps of the write
+// workflow in isolation, given the contextual state that must be passed around.
+describe(`operations.write`, () => {
+
+  const empty = new GraphSnapshot();
+
+  describe(`relay connections`, () => {
+
+    const context = new CacheContext({
+      ...strictConfig,
+      fieldPolicies: {
+        Query: { feed: relayConnectionPolicy() },
+      },
+    });
+
+    const feedQuery = query(`query getFeed($first: Int, $after: String, $last: Int, $before: String) {
+      feed(category: "news", first: $first, after: $after, last: $last, before: $before) {
+        edges { cursor node { id title } }
+        pageInfo { startCursor endCursor hasNextPage hasPreviousPage }
+      }
+    }`);
+    const feedId = nodeIdForParameterizedValue(QueryRootId, ['feed'], { category: 'news' });
+
+    function page(
+      variables: JsonObject,
+      ids: number[],
+      pageInfo: { hasNextPage: boolean, hasPreviousPage: boolean },
+    ) {
+      return {
+        query: { ...feedQuery, variables: { first: null, after: null, last: null, before: null, ...variables } },
+        payload: {
+          feed: {
+            edges: ids.map(id => ({ cursor: `c${id}`, node: { id, title: `Post ${id}` } })),
+            pageInfo: { startCursor: `c${ids[0]}`, endCursor: `c${ids[ids.length - 1]}`, ...pageInfo },
+          },
+        },
+      };
+    }
+
+    function writePages(...pages: { query: typeof feedQuery, payload: JsonObject }[]) {
+      let snapshot = empty;
+      for (const { query: pageQuery, payload } of pages) {
+        snapshot = write(context, snapshot, pageQuery, payload).snapshot;
+      }
+      return snapshot;
+    }
+
+    function edgeIds(snapshot: GraphSnapshot) {
+      const { edges } = snapshot.get(feedId) as any;
+      return edges.map((edge: any) => edge.node.id);
+    }
+
+    it(`keys connections by their non-pagination arguments`, () => {
+      const snapshot = writePages(page({ first: 2 }, [1, 2], { hasNextPage: true, hasPreviousPage: false }));
+      expect(snapshot.has(feedId)).to.eq(true);
+    });
+
+    it(`appends pages fetched after a cursor`, () => {
+      const snapshot = writePages(
+        page({ first: 2 }, [1, 2], { hasNextPage: true, hasPreviousPage: false }),
+        page({ first: 2, after: 'c2' }, [3, 4], { hasNextPage: false, hasPreviousPage: true }),
+      );
+
+      expect(edgeIds(snapshot)).to.deep.eq([1, 2, 3, 4]);
+      expect((snapshot.get(feedId) as any).pageInfo).to.deep.eq({
+        startCursor: 'c1',
+        endCursor: 'c4',
+        hasNextPage: false,
+        hasPreviousPage: false,
+      });
+    });
+
+    it(`prepends pages fetched before a cursor`, () => {
+      const snapshot = writePages(
+        page({ last: 2 }, [3, 4], { hasNextPage: false, hasPreviousPage: true }),
+        page({ last: 2, before: 'c3' }, [1, 2], { hasNextPage: true, hasPreviousPage: false }),
+      );
+
+      expect(edgeIds(snapshot)).to.deep.eq([1, 2, 3, 4]);
+      expect((snapshot.get(feedId) as any).pageInfo).to.deep.eq({
+        startCursor: 'c1',
+        endCursor: 'c4',
+        hasNextPage: false,
+        hasPreviousPage: false,
+      });
+    });
+
+    it(`replaces the edges when fetched without a cursor`, () => {
+      const snapshot = writePages(
+        page({ first: 2 }, [1, 2], { hasNextPage: true, hasPreviousPage: false }),
+        page({ first: 2, after: 'c2' }, [3, 4], { hasNextPage: false, hasPreviousPage: true }),
+        page({ first: 2 }, [5, 1], { hasNextPage: true, hasPreviousPage: false }),
+      );
+
+      expect(edgeIds(snapshot)).to.deep.eq([5, 1]);
+    });
+
+    it(`deduplicates edges by their nodes`, () => {
+      const snapshot = writePages(
+        page({ first: 2 }, [1, 2], { hasNextPage: true, hasPreviousPage: false }),
+        page({ first: 2, after: 'c2' }, [2, 3], { hasNextPage: false, hasPreviousPage: true }),
+      );
+
+      expect(edgeIds(snapshot)).to.deep.eq([1, 2, 3]);
+      expect(snapshot.getNodeSnapshot(feedId)!.outbound).to.deep.eq([
+        { id: '1', path: ['edges', 0, 'node'] },
+        { id: '2', path: ['edges', 1, 'node'] },
+        { id: '3', path: ['edges', 2, 'node'] },
+      ]);
+    });
+
+  });
+
+});
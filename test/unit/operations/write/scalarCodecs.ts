@@ -0,0 +1,137 @@
+import { CacheContext } from '../../../../src/context';
+import { GraphSnapshot } from '../../../../src/GraphSnapshot';
+import { write } from '../../../../src/operations/write';
+import { StaticNodeId } from '../../../../src/schema';
+import { query, strictConfig } from '../../../helpers';
+
+const { QueryRoot: QueryRootId } = StaticNodeId;
+
+// These are really more like integration tests, given the underlying machinery.
+//
+// It just isn't very fruitful to unit test the individual steps of the write
+// workflow in isolation, given the contextual state that must be passed around.
+describe(`operations.write`, () => {
+
+  const empty = new GraphSnapshot();
+
+  describe(`custom scalars`, () => {
+
+    const context = new CacheContext({
+      ...strictConfig,
+      scalars: {
+        DateTime: {
+          serialize: (value: Date) => value.toISOString(),
+          parse: value => new Date(value as string),
+        },
+        JSON: {
+          serialize: value => value,
+          parse: value => value,
+        },
+        Money: {
+          serialize: ({ amount, currency }: { amount: number, currency: string }) => `${amount} ${currency}`,
+          parse: (value) => {
+            const [amount, currency] = (value as string).split(' ');
+            return { amount: Number(amount), currency };
+          },
+        },
+      },
+      scalarFields: {
+        Post: { createdAt: 'DateTime', metadata: 'JSON', editedAt: 'DateTime', price: 'Money' },
+        Query: { now: 'DateTime' },
+      },
+    });
+
+    const postQuery = query(`{
+      now
+      post { __typename id createdAt editedAt metadata }
+    }`);
+
+    let snapshot: GraphSnapshot;
+    beforeAll(() => {
+      snapshot = write(context, empty, postQuery, {
+        now: new Date('2017-01-02T00:00:00.000Z') as any,
+        post: {
+          __typename: 'Post',
+          id: 1,
+          createdAt: new Date('2017-01-01T00:00:00.000Z') as any,
+          editedAt: [new Date('2017-01-01T01:00:00.000Z'), null] as any,
+          metadata: { id: 'abc', tags: ['a'] },
+        },
+      }).snapshot;
+    });
+
+    it(`stores values in their serialized form`, () => {
+      expect(snapshot.get('1')).to.deep.eq({
+        __typename: 'Post',
+        id: 1,
+        createdAt: '2017-01-01T00:00:00.000Z',
+        editedAt: ['2017-01-01T01:00:00.000Z', null],
+        metadata: { id: 'abc', tags: ['a'] },
+      });
+    });
+
+    it(`serializes custom scalar fields of root nodes`, () => {
+      expect(snapshot.get(QueryRootId)).to.deep.include({ now: '2017-01-02T00:00:00.000Z' });
+    });
+
+    it(`does not normalize object values of custom scalars`, () => {
+      expect(snapshot.get('abc')).to.eq(undefined);
+      expect(snapshot.getNodeSnapshot('1')!.outbound).to.eq(undefined);
+    });
+
+    it(`serializes values that are plain objects`, () => {
+      const result = write(context, snapshot, query(`{ post { __typename id price } }`), {
+        post: { __typename: 'Post', id: 1, price: { amount: 10, currency: 'USD' } as any },
+      });
+      expect(result.snapshot.get('1')).to.deep.include({ price: '10 USD' });
+    });
+
+    it(`keeps values that are already serialized`, () => {
+      const { editedNodeIds } = write(context, snapshot, postQuery, {
+        now: '2017-01-02T00:00:00.000Z',
+        post: {
+          __typename: 'Post',
+          id: 1,
+          createdAt: '2017-01-01T00:00:00.000Z',
+          editedAt: ['2017-01-01T01:00:00.000Z', null],
+          metadata: { id: 'abc', tags: ['a'] },
+        },
+      });
+      expect(Array.from(editedNodeIds)).to.have.members([]);
+    });
+
+    it(`compares values in their serialized form`, () => {
+      const { editedNodeIds } = write(context, snapshot, postQuery, {
+        now: new Date('2017-01-02T00:00:00.000Z') as any,
+        post: {
+          __typename: 'Post',
+          id: 1,
+          createdAt: new Date('2017-01-01T00:00:00.000Z') as any,
+          editedAt: [new Date('2017-01-01T01:00:00.000Z'), null] as any,
+          metadata: { id: 'abc', tags: ['a'] },
+        },
+      });
+      expect(Array.from(editedNodeIds)).to.have.members([]);
+    });
+
+    it(`edits nodes whose serialized values change`, () => {
+      const result = write(context, snapshot, postQuery, {
+        now: new Date('2017-01-02T00:00:00.000Z') as any,
+        post: {
+          __typename: 'Post',
+          id: 1,
+          createdAt: new Date('2017-01-01T00:00:00.000Z') as any,
+          editedAt: [new Date('2017-01-03T00:00:00.000Z')] as any,
+          metadata: { id: 'abc', tags: ['a', 'b'] },
+        },
+      });
+      expect(Array.from(result.editedNodeIds)).to.have.members(['1']);
+      expect(result.snapshot.get('1')).to.deep.include({
+        editedAt: ['2017-01-03T00:00:00.000Z'],
+        metadata: { id: 'abc', tags: ['a', 'b'] },
+      });
+    });
+
+  });
+
+});
@@ -0,0 +1,95 @@
+import { CacheContext } from '../../../../src/context';
+import { GraphSnapshot } from '../../../../src/GraphSnapshot';
+import { read, write } from '../../../../src/operations';
+import { StaticNodeId } from '../../../../src/schema';
+import { query, strictConfig } from '../../../helpers';
+
+const { QueryRoot: QueryRootId } = StaticNodeId;
+
+// These are really more like integration tests, given the underlying machinery.
+//
+// It just isn't very fruitful to unit test the individual steps of the write
+// workflow in isolation, given the contextual state that must be passed around.
+describe(`operations.write`, () => {
+
+  const empty = new GraphSnapshot();
+
+  describe(`type policies`, () => {
+
+    const context = new CacheContext({
+      ...strictConfig,
+      typePolicies: {
+        User: { keyFields: ['id'] },
+        Post: { keyFields: ['id'] },
+        Book: { keyFields: ['isbn', 'author.name'] },
+      },
+    });
+
+    const feedQuery = query(`{
+      viewer { __typename id name }
+      posts { __typename id title author { __typename id name } }
+    }`);
+
+    let snapshot: GraphSnapshot;
+    beforeAll(() => {
+      snapshot = write(context, empty, feedQuery, {
+        viewer: { __typename: 'User', id: 1, name: 'One' },
+        posts: [
+          { __typename: 'Post', id: 1, title: 'First', author: { __typename: 'User', id: 1, name: 'One' } },
+        ],
+      }).snapshot;
+    });
+
+    it(`normalizes entities of different types with the same id separately`, () => {
+      expect(snapshot.get('User:1')).to.deep.eq({ __typename: 'User', id: 1, name: 'One' });
+      expect(snapshot.get('Post:1')).to.deep.include({ __typename: 'Post', id: 1, title: 'First' });
+      expect(snapshot.get('1')).to.eq(undefined);
+    });
+
+    it(`references entities by their ids`, () => {
+      expect(snapshot.get('Post:1').author).to.eq(snapshot.get('User:1'));
+      expect(snapshot.getNodeSnapshot(QueryRootId)!.outbound).to.deep.include({ id: 'User:1', path: ['viewer'] });
+    });
+
+    it(`reads entities back`, () => {
+      const { result, complete } = read(context, feedQuery, snapshot);
+      expect(complete).to.eq(true);
+      expect((result as any).posts[0].author).to.eq(snapshot.get('User:1'));
+    });
+
+    it(`normalizes entities with composite and nested key fields`, () => {
+      const result = write(context, empty, query(`{
+        book { __typename isbn title author { name } }
+      }`), {
+        book: { __typename: 'Book', isbn: 'abc', title: 'A', author: { name: 'Someone' } },
+      });
+      const bookId = `Book:{"author":{"name":"Someone"},"isbn":"abc"}`;
+      expect(result.snapshot.get(bookId)).to.deep.include({ title: 'A' });
+    });
+
+    it(`throws when a query does not select the key fields of a value`, () => {
+      expect(() => {
+        write(context, empty, query(`{ viewer { __typename name } }`), {
+          viewer: { __typename: 'User', name: 'One' },
+        });
+      }).to.throw(/Key fields id of User were not selected/);
+    });
+
+    it(`throws when a query does not select nested key fields`, () => {
+      expect(() => {
+        write(context, empty, query(`{ book { __typename isbn title } }`), {
+          book: { __typename: 'Book', isbn: 'abc', title: 'A' },
+        });
+      }).to.throw(/Key fields author\.name of Book were not selected/);
+    });
+
+    it(`falls back to entityIdForNode for other types`, () => {
+      const result = write(context, empty, query(`{ comment { __typename id body } }`), {
+        comment: { __typename: 'Comment', id: 1, body: 'Hi' },
+      });
+      expect(result.snapshot.get('1')).to.deep.eq({ __typename: 'Comment', id: 1, body: 'Hi' });
+    });
+
+  });
+
+});
@@ -0,0 +1,191 @@
+import { Cache } from '../../../src/Cache';
+import { CachePersistor, MemoryStorage, StorageAdapter } from '../../../src/persistence';
+import { query, strictConfig } from '../../helpers';
+
+describe(`persistence.CachePersistor`, () => {
+
+  const viewerQuery = query(`{
+    viewer { id name }
+  }`);
+
+  let cache: Cache, storage: MemoryStorage, persistor: CachePersistor;
+  beforeEach(() => {
+    cache = new Cache(strictConfig);
+    storage = new MemoryStorage();
+  });
+
+  afterEach(() => {
+    if (persistor) persistor.stop();
+  });
+
+  describe(`with no debounce`, () => {
+
+    beforeEach(() => {
+      persistor = new CachePersistor(cache, { storage, debounce: 0 });
+    });
+
+    it(`persists after each commit`, async() => {
+      cache.write(viewerQuery, { viewer: { id: 1, name: 'Foo' } });
+      await Promise.resolve();
+
+      const persisted = JSON.parse(storage.getItem('apollo-cache-hermes')!);
+      expect(persisted).to.deep.eq(cache.extract());
+    });
+
+    it(`restores into another cache`, async() => {
+      cache.write(viewerQuery, { viewer: { id: 1, name: 'Foo' } });
+      await persistor.persist();
+
+      const otherCache = new Cache(strictConfig);
+      const otherPersistor = new CachePersistor(otherCache, { storage, debounce: 0 });
+      const setItem = jest.spyOn(storage, 'setItem');
+
+      expect(await otherPersistor.restore()).to.eq(true);
+      expect(otherCache.read(viewerQuery).result).to.deep.eq({ viewer: { id: 1, name: 'Foo' } });
+      // No need to write back what we just read.
+      expect(setItem.mock.calls.length).to.eq(0);
+
+      otherPersistor.stop();
+    });
+
+    it(`restores nothing when there is no persisted data`, async() => {
+      expect(await persistor.restore()).to.eq(false);
+      expect(cache.extract().nodes).to.deep.eq({});
+    });
+
+    it(`purges persisted data`, async() => {
+      cache.write(viewerQuery, { viewer: { id: 1, name: 'Foo' } });
+      await persistor.purge();
+
+      expect(storage.getItem('apollo-cache-hermes')).to.eq(undefined);
+    });
+
+    it(`stops persisting when stopped`, async() => {
+      persistor.stop();
+      cache.write(viewerQuery, { viewer: { id: 1, name: 'Foo' } });
+      await Promise.resolve();
+
+      expect(storage.getItem('apollo-cache-hermes')).to.eq(undefined);
+    });
+
+  });
+
+  describe(`with a debounce`, () => {
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      persistor = new CachePersistor(cache, { storage, debounce: 100 });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it(`persists once changes settle`, async() => {
+      const setItem = jest.spyOn(storage, 'setItem');
+      cache.write(viewerQuery, { viewer: { id: 1, name: 'Foo' } });
+      jest.runTimersToTime(50);
+      cache.write(viewerQuery, { viewer: { id: 1, name: 'Bar' } });
+      jest.runTimersToTime(50);
+      expect(setItem.mock.calls.length).to.eq(0);
+
+      jest.runTimersToTime(50);
+      await Promise.resolve();
+      expect(setItem.mock.calls.length).to.eq(1);
+      expect(JSON.parse(storage.getItem('apollo-cache-hermes')!)).to.deep.eq(cache.extract());
+    });
+
+  });
+
+  describe(`with a maximum size`, () => {
+
+    let warn: jest.Mock<any>;
+    beforeEach(() => {
+      warn = jest.fn();
+      persistor = new CachePersistor(cache, { storage, debounce: 0, maxSize: 100, logger: { warn, error: jest.fn() } });
+    });
+
+    it(`logs via the cache's logger by default`, async() => {
+      const cacheWarn = jest.fn();
+      const loggingCache = new Cache({ logger: { warn: cacheWarn, error: jest.fn() } });
+      const defaultPersistor = new CachePersistor(loggingCache, { storage, debounce: 0, maxSize: 10 });
+      loggingCache.write(viewerQuery, { viewer: { id: 1, name: 'Foo' } });
+      await defaultPersistor.persist();
+      defaultPersistor.stop();
+
+      expect(cacheWarn.mock.calls.length).to.be.greaterThan(0);
+    });
+
+    it(`purges instead of persisting oversized data`, async() => {
+      storage.setItem('apollo-cache-hermes', 'stale');
+      cache.write(viewerQuery, { viewer: { id: 1, name: 'x'.repeat(100) } });
+      await persistor.persist();
+
+      expect(storage.getItem('apollo-cache-hermes')).to.eq(undefined);
+      expect(warn.mock.calls.length).to.be.greaterThan(0);
+    });
+
+  });
+
+  describe(`with asynchronous storage`, () => {
+
+    it(`persists and restores`, async() => {
+      const values: { [key: string]: string } = {};
+      const asyncStorage: StorageAdapter = {
+        getItem: async key => values[key],
+        setItem: async(key, value) => {
+          values[key] = value;
+        },
+        removeItem: async(key) => {
+          delete values[key];
+        },
+      };
+      persistor = new CachePersistor(cache, { storage: asyncStorage });
+      cache.write(viewerQuery, { viewer: { id: 1, name: 'Foo' } });
+      await persistor.persist();
+
+      const otherCache = new Cache(strictConfig);
+      const otherPersistor = new CachePersistor(otherCache, { storage: asyncStorage });
+      await otherPersistor.restore();
+      otherPersistor.stop();
+
+      expect(otherCache.read(viewerQuery).result).to.deep.eq({ viewer: { id: 1, name: 'Foo' } });
+    });
+
+    it(`waits for slower persists to finish before writing newer contents`, async() => {
+      const written: string[] = [];
+      let finishFirst: () => void;
+      const firstWrite = new Promise<void>((resolve) => {
+        finishFirst = resolve;
+      });
+      const slowStorage: StorageAdapter = {
+        getItem: () => undefined,
+        setItem: async(_key, value) => {
+          if (!written.length) {
+            written.push(value);
+            await firstWrite;
+          } else {
+            written.push(value);
+          }
+        },
+        removeItem: () => undefined,
+      };
+      persistor = new CachePersistor(cache, { storage: slowStorage });
+
+      cache.write(viewerQuery, { viewer: { id: 1, name: 'Foo' } });
+      const first = persistor.persist();
+      cache.write(viewerQuery, { viewer: { id: 1, name: 'Bar' } });
+      const second = persistor.persist();
+      await Promise.resolve();
+      expect(written.length).to.eq(1);
+
+      finishFirst!();
+      await Promise.all([first, second]);
+      expect(written.length).to.eq(2);
+      expect(written[0]).to.include(`"Foo"`);
+      expect(JSON.parse(written[1])).to.deep.eq(cache.extract());
+    });
+
+  });
+
+});
@@ -0,0 +1,46 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { FileSystemStorage } from '../../../src/persistence/FileSystemStorage';
+
+describe(`persistence.FileSystemStorage`, () => {
+
+  let directory: string, storage: FileSystemStorage;
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'hermes-'));
+    storage = new FileSystemStorage(directory);
+  });
+
+  afterEach(() => {
+    for (const file of fs.readdirSync(directory)) {
+      fs.unlinkSync(path.join(directory, file));
+    }
+    fs.rmdirSync(directory);
+  });
+
+  it(`returns null for missing keys`, async() => {
+    expect(await storage.getItem('missing')).to.eq(null);
+  });
+
+  it(`stores and retrieves values`, async() => {
+    await storage.setItem('some/key', 'value');
+    expect(await storage.getItem('some/key')).to.eq('value');
+  });
+
+  it(`stores values as files`, async() => {
+    await storage.setItem('some/key', 'value');
+    expect(fs.readdirSync(directory)).to.deep.eq([encodeURIComponent('some/key')]);
+  });
+
+  it(`removes values`, async() => {
+    await storage.setItem('key', 'value');
+    await storage.removeItem('key');
+    expect(await storage.getItem('key')).to.eq(null);
+  });
+
+  it(`ignores removal of missing keys`, async() => {
+    await storage.removeItem('missing');
+  });
+
+});
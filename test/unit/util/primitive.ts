@@ -0,0 +1,25 @@
+import { canonicalJson } from '../../../src/util/primitive';
+
+describe(`util.primitive`, () => {
+  describe(`canonicalJson`, () => {
+
+    it(`serializes objects with sorted keys`, () => {
+      expect(canonicalJson({ b: 2, a: 1 })).to.eq(`{"a":1,"b":2}`);
+    });
+
+    it(`sorts the keys of nested objects`, () => {
+      expect(canonicalJson({ filter: { tag: 'x', author: { name: 'y', id: 1 } } }))
+        .to.eq(`{"filter":{"author":{"id":1,"name":"y"},"tag":"x"}}`);
+    });
+
+    it(`preserves the order of arrays`, () => {
+      expect(canonicalJson({ ids: [3, 1, { d: 1, c: 2 }] })).to.eq(`{"ids":[3,1,{"c":2,"d":1}]}`);
+    });
+
+    it(`serializes scalars like JSON.stringify`, () => {
+      expect(canonicalJson('hi')).to.eq(`"hi"`);
+      expect(canonicalJson(null)).to.eq(`null`);
+    });
+
+  });
+});
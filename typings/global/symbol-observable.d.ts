@@ -0,0 +1,4 @@
+interface SymbolConstructor {
+  /** Identifies observables for interop; only present if polyfilled. */
+  readonly observable?: symbol;
+}